@@ -5,9 +5,245 @@ CREATE TABLE users (
   created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
+-- A user's named watchlists
 CREATE TABLE watchlists (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (user_id, name)
+);
+
+-- Symbols on a watchlist, in the user's order, with optional note, tags and target price.
+-- asset_type is the registry's type for the symbol when it was added.
+CREATE TABLE watchlist_items (
+  id SERIAL PRIMARY KEY,
+  watchlist_id INTEGER NOT NULL REFERENCES watchlists(id) ON DELETE CASCADE,
+  symbol VARCHAR(20) NOT NULL,
+  asset_type VARCHAR(10) NOT NULL DEFAULT 'stock' CHECK (asset_type IN ('stock', 'crypto')),
+  position INTEGER NOT NULL DEFAULT 0,
+  note TEXT,
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  target_price DOUBLE PRECISION CHECK (target_price > 0),
+  added_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (watchlist_id, symbol)
+);
+
+-- Upgrading a database from the flat (user_id, symbol) watchlists table:
+--   ALTER TABLE watchlists RENAME TO watchlists_old;
+--   (create watchlists and watchlist_items as above)
+--   INSERT INTO watchlists (user_id, name) SELECT DISTINCT user_id, 'Watchlist' FROM watchlists_old;
+--   INSERT INTO watchlist_items (watchlist_id, symbol, position)
+--     SELECT w.id, o.symbol, ROW_NUMBER() OVER (PARTITION BY o.user_id ORDER BY o.id) - 1
+--     FROM watchlists_old o JOIN watchlists w ON w.user_id = o.user_id;
+--   DROP TABLE watchlists_old;
+
+-- Upgrading watchlist_items from before asset_type (symbols only registered as coins become crypto):
+--   ALTER TABLE watchlist_items ADD COLUMN asset_type VARCHAR(10) NOT NULL DEFAULT 'stock'
+--     CHECK (asset_type IN ('stock', 'crypto'));
+--   UPDATE watchlist_items i SET asset_type = 'crypto'
+--     WHERE EXISTS (SELECT 1 FROM symbols s WHERE s.symbol = i.symbol AND s.asset_type = 'crypto')
+--       AND NOT EXISTS (SELECT 1 FROM symbols s WHERE s.symbol = i.symbol AND s.asset_type = 'stock');
+
+-- Named symbol lists the scanner can run over. Shared universes have no user_id.
+-- 'static' universes scan their members; 'provider' universes ask the market
+-- data provider for its top provider_limit symbols (e.g. crypto by market cap).
+CREATE TABLE universes (
+  id SERIAL PRIMARY KEY,
+  slug VARCHAR(50) UNIQUE NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  asset_type VARCHAR(10) NOT NULL CHECK (asset_type IN ('stock', 'crypto')),
+  source VARCHAR(10) NOT NULL DEFAULT 'static' CHECK (source IN ('static', 'provider')),
+  provider_limit INTEGER,
+  user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE universe_members (
+  universe_id INTEGER REFERENCES universes(id) ON DELETE CASCADE,
+  symbol VARCHAR(20) NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  exchange VARCHAR(20),
+  sector VARCHAR(100),
+  position INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (universe_id, symbol)
+);
+
+INSERT INTO universes (slug, name, asset_type, source, provider_limit) VALUES
+  ('us-megacap', 'US Mega Caps', 'stock', 'static', NULL),
+  ('top-10-crypto', 'Top 10 Crypto', 'crypto', 'provider', 10),
+  ('top-50-crypto', 'Top 50 Crypto', 'crypto', 'provider', 50);
+
+INSERT INTO universe_members (universe_id, symbol, name, exchange, sector, position)
+SELECT id, m.symbol, m.name, m.exchange, m.sector, m.position
+FROM universes, (VALUES
+  ('AAPL', 'Apple Inc.', 'NASDAQ', 'Information Technology', 1),
+  ('MSFT', 'Microsoft Corporation', 'NASDAQ', 'Information Technology', 2),
+  ('GOOGL', 'Alphabet Inc.', 'NASDAQ', 'Communication Services', 3),
+  ('AMZN', 'Amazon.com Inc.', 'NASDAQ', 'Consumer Discretionary', 4),
+  ('TSLA', 'Tesla Inc.', 'NASDAQ', 'Consumer Discretionary', 5),
+  ('META', 'Meta Platforms Inc.', 'NASDAQ', 'Communication Services', 6)
+) AS m(symbol, name, exchange, sector, position)
+WHERE universes.slug = 'us-megacap';
+
+-- Symbol registry: every symbol the scanner has found data for, with its provider
+-- metadata. Backs /api/symbols and the checks on watchlist writes. Filled by scans;
+-- the static universe members are seeded here. A ticker can be both a stock and a coin.
+CREATE TABLE symbols (
+  symbol VARCHAR(20) NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  asset_type VARCHAR(10) NOT NULL CHECK (asset_type IN ('stock', 'crypto')),
+  exchange VARCHAR(20),
+  sector VARCHAR(100),
+  provider_id VARCHAR(100),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (symbol, asset_type)
+);
+
+-- Upgrading a database whose symbols table is keyed on symbol alone:
+--
+--   ALTER TABLE symbols DROP CONSTRAINT symbols_pkey, ADD PRIMARY KEY (symbol, asset_type);
+
+INSERT INTO symbols (symbol, name, asset_type, exchange, sector)
+SELECT DISTINCT ON (m.symbol, u.asset_type) m.symbol, m.name, u.asset_type, m.exchange, m.sector
+FROM universe_members m JOIN universes u ON u.id = m.universe_id
+ORDER BY m.symbol, u.asset_type
+ON CONFLICT (symbol, asset_type) DO NOTHING;
+
+-- Candle store: bars fetched from the market data vendors, topped up incrementally.
+-- Daily bars are stored at midnight UTC of their date.
+CREATE TABLE candles (
+  asset_type VARCHAR(10) NOT NULL,
+  symbol VARCHAR(20) NOT NULL,
+  bar_interval VARCHAR(5) NOT NULL,
+  time TIMESTAMP WITH TIME ZONE NOT NULL,
+  open DOUBLE PRECISION NOT NULL,
+  high DOUBLE PRECISION NOT NULL,
+  low DOUBLE PRECISION NOT NULL,
+  close DOUBLE PRECISION NOT NULL,
+  volume DOUBLE PRECISION NOT NULL DEFAULT 0,
+  PRIMARY KEY (asset_type, symbol, bar_interval, time)
+);
+
+-- When each series was last fetched from its vendor
+CREATE TABLE candle_sync (
+  asset_type VARCHAR(10) NOT NULL,
+  symbol VARCHAR(20) NOT NULL,
+  bar_interval VARCHAR(5) NOT NULL,
+  synced_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  PRIMARY KEY (asset_type, symbol, bar_interval)
+);
+
+-- Results of the background scan, one row per universe per run; /api/data serves the latest.
+-- Rows with a user_id were scanned with that user's own Supertrend settings.
+CREATE TABLE scan_snapshots (
+  id SERIAL PRIMARY KEY,
+  universe_slug VARCHAR(50) NOT NULL,
+  user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+  assets JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX scan_snapshots_latest ON scan_snapshots (universe_slug, user_id, created_at DESC);
+
+-- Upgrading a database whose scan_snapshots table has no user_id:
+--
+--   ALTER TABLE scan_snapshots ADD COLUMN user_id INTEGER REFERENCES users(id) ON DELETE CASCADE;
+--   DROP INDEX scan_snapshots_latest;
+--   CREATE INDEX scan_snapshots_latest ON scan_snapshots (universe_slug, user_id, created_at DESC);
+
+-- Supertrend configs that replace the scanner defaults for one timeframe,
+-- owned by either a user (their indicator settings) or a universe (e.g. saved from the optimiser)
+CREATE TABLE supertrend_settings (
   id SERIAL PRIMARY KEY,
   user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+  universe_slug VARCHAR(50) REFERENCES universes(slug) ON DELETE CASCADE,
+  timeframe VARCHAR(5) NOT NULL,
+  atr_period INTEGER NOT NULL CHECK (atr_period > 0),
+  factor DOUBLE PRECISION NOT NULL CHECK (factor > 0),
+  source VARCHAR(10) NOT NULL DEFAULT 'hl2' CHECK (source IN ('hl2', 'hlc3', 'ohlc4', 'close')),
+  atr_smoothing VARCHAR(10) NOT NULL DEFAULT 'rma' CHECK (atr_smoothing IN ('rma', 'sma', 'ema', 'wma')),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  CHECK ((user_id IS NULL) <> (universe_slug IS NULL))
+);
+
+CREATE UNIQUE INDEX supertrend_settings_user ON supertrend_settings (user_id, timeframe) WHERE user_id IS NOT NULL;
+CREATE UNIQUE INDEX supertrend_settings_universe ON supertrend_settings (universe_slug, timeframe) WHERE universe_slug IS NOT NULL;
+
+-- Alert rules: a symbol (or, with no symbol, every symbol on the user's watchlists), a timeframe and a condition
+CREATE TABLE alert_rules (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  symbol VARCHAR(20),
+  timeframe VARCHAR(5) NOT NULL,
+  condition VARCHAR(20) NOT NULL CHECK (condition IN ('st_buy', 'st_sell', 'st_flip', 'cross_above', 'cross_below')),
+  email BOOLEAN NOT NULL DEFAULT FALSE,
+  webhook_url TEXT,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  -- Flips on bars since then are checked at the next scan
+  last_checked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Upgrading alert_rules from before last_checked_at:
+--   ALTER TABLE alert_rules ADD COLUMN last_checked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Fired alerts, the in-app inbox. One per rule, symbol and bar.
+CREATE TABLE alerts (
+  id SERIAL PRIMARY KEY,
+  rule_id INTEGER REFERENCES alert_rules(id) ON DELETE SET NULL,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  symbol VARCHAR(20) NOT NULL,
+  timeframe VARCHAR(5) NOT NULL,
+  condition VARCHAR(20) NOT NULL,
+  message TEXT NOT NULL,
+  price DOUBLE PRECISION NOT NULL,
+  supertrend_value DOUBLE PRECISION NOT NULL,
+  bar_time VARCHAR(30) NOT NULL,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (rule_id, symbol, bar_time)
+);
+
+CREATE INDEX alerts_inbox ON alerts (user_id, created_at DESC);
+
+-- Which side of the Supertrend line the price was on at the last scan, for cross rules
+CREATE TABLE alert_cross_state (
+  rule_id INTEGER REFERENCES alert_rules(id) ON DELETE CASCADE,
+  symbol VARCHAR(20) NOT NULL,
+  side VARCHAR(5) NOT NULL CHECK (side IN ('above', 'below')),
+  PRIMARY KEY (rule_id, symbol)
+);
+
+-- Supertrend direction and trend-label changes, logged by the scheduled scan.
+-- previous is NULL for the first state seen for an asset, timeframe and kind.
+CREATE TABLE signal_events (
+  id SERIAL PRIMARY KEY,
+  asset_type VARCHAR(10) NOT NULL,
   symbol VARCHAR(20) NOT NULL,
-  UNIQUE(user_id, symbol)
-);
\ No newline at end of file
+  timeframe VARCHAR(5) NOT NULL,
+  kind VARCHAR(10) NOT NULL CHECK (kind IN ('supertrend', 'trend')),
+  previous VARCHAR(10),
+  current VARCHAR(10) NOT NULL,
+  price DOUBLE PRECISION NOT NULL,
+  bar_time VARCHAR(30) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (asset_type, symbol, timeframe, kind, bar_time, current)
+);
+
+CREATE INDEX signal_events_history ON signal_events (asset_type, symbol, timeframe);
+
+-- A user's saved dashboard setups; share_token backs the read-only share link
+CREATE TABLE saved_scans (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  universe_slug VARCHAR(50) REFERENCES universes(slug) ON DELETE SET NULL,
+  filter TEXT,
+  sort VARCHAR(20),
+  columns JSONB NOT NULL,
+  share_token VARCHAR(32) NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (user_id, name)
+);
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { getUserIdFromToken } from '../../../lib/auth';
+import { listAlerts, markAlertsRead } from '../../../lib/alerts';
+
+// GET /api/alerts?unread=1 - the alert inbox, newest first, with the unread count
+export async function GET(request: Request) {
+  const userId = await getUserIdFromToken();
+  if (!userId) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  const unreadOnly = new URL(request.url).searchParams.get('unread') === '1';
+  try {
+    return NextResponse.json(await listAlerts(userId, unreadOnly));
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PATCH { ids?: number[] } marks alerts read; without ids, marks them all read
+export async function PATCH(request: Request) {
+  const userId = await getUserIdFromToken();
+  if (!userId) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { ids } = await request.json();
+  if (ids !== undefined && (!Array.isArray(ids) || !ids.every(Number.isInteger))) {
+    return NextResponse.json({ message: 'ids must be a list of alert ids' }, { status: 400 });
+  }
+
+  try {
+    const updated = await markAlertsRead(userId, ids ?? null);
+    return NextResponse.json({ message: 'Alerts marked read', updated });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
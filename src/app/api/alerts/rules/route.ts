@@ -0,0 +1,112 @@
+import { NextResponse } from 'next/server';
+import { getUserIdFromToken } from '../../../../lib/auth';
+import {
+  ALERT_CONDITIONS,
+  createAlertRule,
+  deleteAlertRule,
+  listAlertRules,
+  setAlertRuleActive,
+  type AlertCondition
+} from '../../../../lib/alerts';
+import { isAllowedWebhookUrl } from '../../../../lib/notifications';
+import { TIMEFRAMES } from '../../../../lib/resample';
+import { parseTicker } from '../../../../lib/symbols';
+
+export async function GET() {
+  const userId = await getUserIdFromToken();
+  if (!userId) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await listAlertRules(userId));
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST { symbol?, timeframe, condition, email?, webhookUrl? }; without a symbol the rule covers the watchlists
+export async function POST(request: Request) {
+  const userId = await getUserIdFromToken();
+  if (!userId) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { symbol, timeframe, condition, email = false, webhookUrl } = await request.json();
+  if (!TIMEFRAMES.includes(timeframe)) {
+    return NextResponse.json({ message: `Timeframe must be one of ${TIMEFRAMES.join(', ')}` }, { status: 400 });
+  }
+  if (!(condition in ALERT_CONDITIONS)) {
+    return NextResponse.json({ message: `Condition must be one of ${Object.keys(ALERT_CONDITIONS).join(', ')}` }, { status: 400 });
+  }
+  // Tickers are matched as on watchlists: upper case and without an EXCHANGE: prefix
+  const ticker = symbol === undefined || symbol === null ? null : parseTicker(symbol);
+  if (symbol !== undefined && symbol !== null && !ticker) {
+    return NextResponse.json({ message: 'Symbol must be a ticker, or omitted for the watchlists' }, { status: 400 });
+  }
+  if (webhookUrl && (typeof webhookUrl !== 'string' || !isAllowedWebhookUrl(webhookUrl))) {
+    return NextResponse.json({ message: 'Webhook URL must be an http(s) URL on an allowed host' }, { status: 400 });
+  }
+
+  try {
+    const rule = await createAlertRule(userId, {
+      symbol: ticker,
+      timeframe,
+      condition: condition as AlertCondition,
+      email: Boolean(email),
+      webhookUrl: webhookUrl || null
+    });
+    return NextResponse.json(rule, { status: 201 });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PATCH { id, active } pauses or resumes a rule
+export async function PATCH(request: Request) {
+  const userId = await getUserIdFromToken();
+  if (!userId) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id, active } = await request.json();
+  if (!Number.isInteger(id) || typeof active !== 'boolean') {
+    return NextResponse.json({ message: 'Rule id and active flag are required' }, { status: 400 });
+  }
+
+  try {
+    const updated = await setAlertRuleActive(userId, id, active);
+    if (!updated) {
+      return NextResponse.json({ message: 'Rule not found' }, { status: 404 });
+    }
+    return NextResponse.json({ message: active ? 'Rule resumed' : 'Rule paused' });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request) {
+  const userId = await getUserIdFromToken();
+  if (!userId) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id } = await request.json();
+  if (!Number.isInteger(id)) {
+    return NextResponse.json({ message: 'Rule id is required' }, { status: 400 });
+  }
+
+  try {
+    const deleted = await deleteAlertRule(userId, id);
+    if (!deleted) {
+      return NextResponse.json({ message: 'Rule not found' }, { status: 404 });
+    }
+    return NextResponse.json({ message: 'Rule deleted' });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { getAssetSeries, getUserSupertrendConfigs } from "../../../../lib/scanner";
+import { getUserIdFromToken } from "../../../../lib/auth";
+import { TIMEFRAMES, type Timeframe } from "../../../../lib/resample";
+
+// GET /api/assets/AAPL?type=stock&timeframe=1D&universe=us-megacap
+// universe is the one the asset was scanned in, so the chart uses the same Supertrend settings as the table
+export async function GET(request: Request, { params }: { params: Promise<{ symbol: string }> }) {
+  const { symbol } = await params;
+  const searchParams = new URL(request.url).searchParams;
+  const type = searchParams.get("type") || "stock";
+  const timeframe = searchParams.get("timeframe") || "1D";
+  const universe = searchParams.get("universe");
+
+  if (type !== "stock" && type !== "crypto") {
+    return NextResponse.json(
+      { error: "Invalid type", message: 'type must be "stock" or "crypto"', timestamp: new Date().toISOString() },
+      { status: 400 }
+    );
+  }
+  if (!TIMEFRAMES.includes(timeframe as Timeframe)) {
+    return NextResponse.json(
+      { error: "Invalid timeframe", message: `timeframe must be one of ${TIMEFRAMES.join(", ")}`, timestamp: new Date().toISOString() },
+      { status: 400 }
+    );
+  }
+
+  try {
+    // Draw the universe's and the logged-in user's Supertrend settings
+    const userId = await getUserIdFromToken();
+    const configs = await getUserSupertrendConfigs(userId, universe);
+    const series = await getAssetSeries(type, symbol, timeframe as Timeframe, configs[timeframe as Timeframe]);
+    if (series.candles.length === 0) {
+      return NextResponse.json(
+        { error: "No data", message: `No ${timeframe} candles for ${series.symbol}`, timestamp: new Date().toISOString() },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(series);
+  } catch (error) {
+    console.error(`Error fetching series for ${symbol}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error", message: "Failed to fetch market data", timestamp: new Date().toISOString() },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { getTimeframeCandles, getUserSupertrendConfigs } from "../../../lib/scanner";
+import { getUserIdFromToken } from "../../../lib/auth";
+import { runBacktest, DEFAULT_BACKTEST_CONFIG, type BacktestMode } from "../../../lib/backtest";
+import { TIMEFRAMES, type Timeframe } from "../../../lib/resample";
+
+function badRequest(error: string, message: string) {
+  return NextResponse.json({ error, message, timestamp: new Date().toISOString() }, { status: 400 });
+}
+
+// Optional numeric query parameter; NaN when present but not a number
+function numberParam(searchParams: URLSearchParams, name: string, fallback: number): number {
+  const value = searchParams.get(name);
+  return value === null || value === "" ? fallback : Number(value);
+}
+
+// GET /api/backtest?symbol=AAPL&type=stock&timeframe=1D&mode=long-short&commission=0.001&slippage=0.0005&universe=us-megacap
+// atrPeriod and factor default to the settings the asset was scanned with in universe, and the logged-in user's
+export async function GET(request: Request) {
+  const searchParams = new URL(request.url).searchParams;
+  const symbol = searchParams.get("symbol");
+  const type = searchParams.get("type") || "stock";
+  const timeframe = searchParams.get("timeframe") || "1D";
+  const mode = searchParams.get("mode") || DEFAULT_BACKTEST_CONFIG.mode;
+
+  if (!symbol) {
+    return badRequest("Missing symbol", "symbol is required");
+  }
+  if (type !== "stock" && type !== "crypto") {
+    return badRequest("Invalid type", 'type must be "stock" or "crypto"');
+  }
+  if (!TIMEFRAMES.includes(timeframe as Timeframe)) {
+    return badRequest("Invalid timeframe", `timeframe must be one of ${TIMEFRAMES.join(", ")}`);
+  }
+  if (mode !== "long-only" && mode !== "long-short") {
+    return badRequest("Invalid mode", 'mode must be "long-only" or "long-short"');
+  }
+
+  const userId = await getUserIdFromToken();
+  const defaults = (await getUserSupertrendConfigs(userId, searchParams.get("universe")))[timeframe as Timeframe];
+  const atrPeriod = numberParam(searchParams, "atrPeriod", defaults.atrPeriod);
+  const factor = numberParam(searchParams, "factor", defaults.factor);
+  const commission = numberParam(searchParams, "commission", DEFAULT_BACKTEST_CONFIG.commission);
+  const slippage = numberParam(searchParams, "slippage", DEFAULT_BACKTEST_CONFIG.slippage);
+  const initialCapital = numberParam(searchParams, "capital", DEFAULT_BACKTEST_CONFIG.initialCapital);
+
+  if (!Number.isInteger(atrPeriod) || atrPeriod < 1) {
+    return badRequest("Invalid atrPeriod", "atrPeriod must be a positive integer");
+  }
+  if (!(factor > 0)) {
+    return badRequest("Invalid factor", "factor must be a positive number");
+  }
+  if (!(commission >= 0 && commission < 1) || !(slippage >= 0 && slippage < 1)) {
+    return badRequest("Invalid costs", "commission and slippage must be fractions between 0 and 1");
+  }
+  if (!(initialCapital > 0)) {
+    return badRequest("Invalid capital", "capital must be a positive number");
+  }
+
+  try {
+    const candles = await getTimeframeCandles(type, symbol, timeframe as Timeframe);
+    if (candles.length <= atrPeriod) {
+      return badRequest(
+        "Insufficient data",
+        `Need more than ${atrPeriod} ${timeframe} candles for ${symbol.toUpperCase()}, got ${candles.length}`
+      );
+    }
+
+    const result = runBacktest(candles, {
+      supertrend: { ...defaults, atrPeriod, factor },
+      mode: mode as BacktestMode,
+      initialCapital,
+      commission,
+      slippage
+    });
+    return NextResponse.json({ symbol: symbol.toUpperCase(), type, timeframe, ...result });
+  } catch (error) {
+    console.error(`Error backtesting ${symbol}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error", message: "Failed to run backtest", timestamp: new Date().toISOString() },
+      { status: 500 }
+    );
+  }
+}
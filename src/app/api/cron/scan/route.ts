@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { runScheduledScan } from '../../../../lib/scanner';
+
+// A full scan waits on vendor rate limits
+export const maxDuration = 300;
+
+// Called by Vercel Cron (see vercel.json), or by hand:
+// curl -H "Authorization: Bearer $CRON_SECRET" http://localhost:3000/api/cron/scan
+// Without CRON_SECRET it only runs in development.
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret && process.env.NODE_ENV !== 'development') {
+    console.error('CRON_SECRET is not set, refusing to run the scan');
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+  if (secret && request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const startedAt = Date.now();
+    const snapshots = await runScheduledScan();
+    return NextResponse.json({
+      message: 'Scan complete',
+      durationMs: Date.now() - startedAt,
+      snapshots: snapshots.map(({ universe, assets, createdAt }) => ({ universe, assetCount: assets.length, createdAt }))
+    });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
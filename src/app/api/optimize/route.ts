@@ -0,0 +1,186 @@
+import { NextResponse } from "next/server";
+import { getUserIdFromToken } from "../../../lib/auth";
+import { getTimeframeCandles, getUserSupertrendConfigs } from "../../../lib/scanner";
+import { getUniverse } from "../../../lib/universes";
+import { DEFAULT_BACKTEST_CONFIG, type BacktestMode } from "../../../lib/backtest";
+import { ATR_SMOOTHINGS, SUPERTREND_SOURCES, type AtrSmoothing, type SupertrendSource } from "../../../lib/indicators";
+import {
+  optimizeSupertrend,
+  DEFAULT_OPTIMIZATION_CONFIG,
+  OPTIMIZATION_METRICS,
+  type OptimizationMetric
+} from "../../../lib/optimizer";
+import { saveSupertrendOverride } from "../../../lib/supertrendSettings";
+import { TIMEFRAMES, type Timeframe } from "../../../lib/resample";
+
+// Backtests per request are grid size x (folds + 1)
+const MAX_GRID_SIZE = 200;
+
+// A sweep replays every config on every window
+export const maxDuration = 60;
+
+function badRequest(error: string, message: string) {
+  return NextResponse.json({ error, message, timestamp: new Date().toISOString() }, { status: 400 });
+}
+
+// Optional numeric query parameter; NaN when present but not a number
+function numberParam(searchParams: URLSearchParams, name: string, fallback: number): number {
+  const value = searchParams.get(name);
+  return value === null || value === "" ? fallback : Number(value);
+}
+
+// Optional comma-separated list, e.g. atrPeriods=7,10,14
+function listParam(searchParams: URLSearchParams, name: string, fallback: number[]): number[] {
+  const value = searchParams.get(name);
+  return value === null || value === "" ? fallback : value.split(",").map(Number);
+}
+
+// GET /api/optimize?symbol=AAPL&type=stock&timeframe=1D&atrPeriods=7,10,14&factors=2,3,4&metric=cagr&folds=4&universe=us-megacap
+// source and atrSmoothing default to the settings the asset was scanned with in universe, and the logged-in user's
+export async function GET(request: Request) {
+  const searchParams = new URL(request.url).searchParams;
+  const symbol = searchParams.get("symbol");
+  const type = searchParams.get("type") || "stock";
+  const timeframe = searchParams.get("timeframe") || "1D";
+  const metric = searchParams.get("metric") || DEFAULT_OPTIMIZATION_CONFIG.metric;
+  const mode = searchParams.get("mode") || DEFAULT_BACKTEST_CONFIG.mode;
+
+  if (!symbol) {
+    return badRequest("Missing symbol", "symbol is required");
+  }
+  if (type !== "stock" && type !== "crypto") {
+    return badRequest("Invalid type", 'type must be "stock" or "crypto"');
+  }
+  if (!TIMEFRAMES.includes(timeframe as Timeframe)) {
+    return badRequest("Invalid timeframe", `timeframe must be one of ${TIMEFRAMES.join(", ")}`);
+  }
+  if (!OPTIMIZATION_METRICS.includes(metric as OptimizationMetric)) {
+    return badRequest("Invalid metric", `metric must be one of ${OPTIMIZATION_METRICS.join(", ")}`);
+  }
+  if (mode !== "long-only" && mode !== "long-short") {
+    return badRequest("Invalid mode", 'mode must be "long-only" or "long-short"');
+  }
+
+  const userId = await getUserIdFromToken();
+  const defaults = (await getUserSupertrendConfigs(userId, searchParams.get("universe")))[timeframe as Timeframe];
+  const source = searchParams.get("source") || defaults.source || DEFAULT_OPTIMIZATION_CONFIG.source;
+  const atrSmoothing = searchParams.get("atrSmoothing") || defaults.atrSmoothing || DEFAULT_OPTIMIZATION_CONFIG.atrSmoothing;
+  if (!SUPERTREND_SOURCES.includes(source as SupertrendSource)) {
+    return badRequest("Invalid source", `source must be one of ${SUPERTREND_SOURCES.join(", ")}`);
+  }
+  if (!ATR_SMOOTHINGS.includes(atrSmoothing as AtrSmoothing)) {
+    return badRequest("Invalid atrSmoothing", `atrSmoothing must be one of ${ATR_SMOOTHINGS.join(", ")}`);
+  }
+
+  const atrPeriods = listParam(searchParams, "atrPeriods", DEFAULT_OPTIMIZATION_CONFIG.atrPeriods);
+  const factors = listParam(searchParams, "factors", DEFAULT_OPTIMIZATION_CONFIG.factors);
+  const folds = numberParam(searchParams, "folds", DEFAULT_OPTIMIZATION_CONFIG.folds);
+  const trainRatio = numberParam(searchParams, "trainRatio", DEFAULT_OPTIMIZATION_CONFIG.trainRatio);
+  const minTrades = numberParam(searchParams, "minTrades", DEFAULT_OPTIMIZATION_CONFIG.minTrades);
+  const commission = numberParam(searchParams, "commission", DEFAULT_BACKTEST_CONFIG.commission);
+  const slippage = numberParam(searchParams, "slippage", DEFAULT_BACKTEST_CONFIG.slippage);
+
+  if (atrPeriods.some(period => !Number.isInteger(period) || period < 1)) {
+    return badRequest("Invalid atrPeriods", "atrPeriods must be positive integers");
+  }
+  if (factors.some(factor => !(factor > 0))) {
+    return badRequest("Invalid factors", "factors must be positive numbers");
+  }
+  if (atrPeriods.length * factors.length > MAX_GRID_SIZE) {
+    return badRequest("Grid too large", `atrPeriods x factors must be at most ${MAX_GRID_SIZE} configs`);
+  }
+  if (!Number.isInteger(folds) || folds < 1 || folds > 12) {
+    return badRequest("Invalid folds", "folds must be an integer from 1 to 12");
+  }
+  if (!(trainRatio > 0 && trainRatio < 1)) {
+    return badRequest("Invalid trainRatio", "trainRatio must be between 0 and 1");
+  }
+  if (!Number.isInteger(minTrades) || minTrades < 0) {
+    return badRequest("Invalid minTrades", "minTrades must be a non-negative integer");
+  }
+  if (!(commission >= 0 && commission < 1) || !(slippage >= 0 && slippage < 1)) {
+    return badRequest("Invalid costs", "commission and slippage must be fractions between 0 and 1");
+  }
+
+  let candles;
+  try {
+    candles = await getTimeframeCandles(type, symbol, timeframe as Timeframe);
+  } catch (error) {
+    console.error(`Error fetching candles to optimise ${symbol}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error", message: "Failed to fetch market data", timestamp: new Date().toISOString() },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const result = optimizeSupertrend(candles, {
+      atrPeriods,
+      factors,
+      source: source as SupertrendSource,
+      atrSmoothing: atrSmoothing as AtrSmoothing,
+      metric: metric as OptimizationMetric,
+      folds,
+      trainRatio,
+      minTrades,
+      backtest: { mode: mode as BacktestMode, commission, slippage }
+    });
+    return NextResponse.json({ symbol: symbol.toUpperCase(), type, timeframe, ...result });
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith("Insufficient data")) {
+      return badRequest("Insufficient data", error.message);
+    }
+    console.error(`Error optimising ${symbol}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error", message: "Failed to run optimisation", timestamp: new Date().toISOString() },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/optimize { timeframe, atrPeriod, factor, source?, atrSmoothing?, universe? }
+// Saves a config, e.g. the sweep's winner as it was scored, as the logged-in user's default for the timeframe,
+// or as a universe's default. source and atrSmoothing default to hl2 and rma.
+// Users can set defaults for their own universes; shared ones need the CRON_SECRET bearer token.
+export async function POST(request: Request) {
+  const userId = await getUserIdFromToken();
+  if (!userId) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  const { timeframe, atrPeriod, factor, source = "hl2", atrSmoothing = "rma", universe: slug } = await request.json();
+  if (!TIMEFRAMES.includes(timeframe)) {
+    return NextResponse.json({ message: `Timeframe must be one of ${TIMEFRAMES.join(", ")}` }, { status: 400 });
+  }
+  if (!Number.isInteger(atrPeriod) || atrPeriod < 1 || typeof factor !== "number" || !(factor > 0)) {
+    return NextResponse.json({ message: "ATR period must be a positive integer and factor a positive number" }, { status: 400 });
+  }
+  if (!SUPERTREND_SOURCES.includes(source) || !ATR_SMOOTHINGS.includes(atrSmoothing)) {
+    return NextResponse.json(
+      { message: `Source must be one of ${SUPERTREND_SOURCES.join(", ")} and ATR smoothing one of ${ATR_SMOOTHINGS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+  const config = { atrPeriod, factor, source, atrSmoothing };
+
+  try {
+    if (slug) {
+      const universe = await getUniverse(slug, userId);
+      if (!universe) {
+        return NextResponse.json({ message: "Universe not found" }, { status: 404 });
+      }
+      const secret = process.env.CRON_SECRET;
+      const admin = !!secret && request.headers.get("authorization") === `Bearer ${secret}`;
+      if (universe.userId !== userId && !admin) {
+        return NextResponse.json({ message: "Only the owner can change a universe's defaults" }, { status: 403 });
+      }
+      await saveSupertrendOverride({ universe: universe.slug }, timeframe, config);
+    } else {
+      await saveSupertrendOverride({ userId }, timeframe, config);
+    }
+    return NextResponse.json({ message: "Default saved", timeframe, ...config, universe: slug ?? null });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ message: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,148 @@
+import { NextResponse } from 'next/server';
+import { getUserIdFromToken } from '../../../lib/auth';
+import {
+  createSavedScan,
+  deleteSavedScan,
+  listSavedScans,
+  updateSavedScan,
+  SCAN_COLUMNS,
+  SCAN_SORTS,
+  type ScanDefinition
+} from '../../../lib/savedScans';
+import { parseScreenerFilter } from '../../../lib/screener';
+import { getUniverse } from '../../../lib/universes';
+
+/**
+ * Check a scan from the request body, returning it normalised or the reason it's invalid
+ */
+async function parseScan(body: Record<string, unknown>, userId: number): Promise<{ scan: ScanDefinition } | { message: string }> {
+  const { name, universe = null, filter = null, sort = null, columns = SCAN_COLUMNS } = body;
+
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > 100) {
+    return { message: 'Name is required and must be at most 100 characters' };
+  }
+  if (universe !== null && (typeof universe !== 'string' || !(await getUniverse(universe, userId)))) {
+    return { message: 'Unknown universe' };
+  }
+  if (filter !== null && typeof filter !== 'string') {
+    return { message: 'Filter must be a screener expression' };
+  }
+  const trimmedFilter = filter?.trim() || null;
+  if (trimmedFilter) {
+    const { error } = parseScreenerFilter(trimmedFilter);
+    if (error) {
+      return { message: `Invalid filter: ${error.message}` };
+    }
+  }
+  if (sort !== null && !SCAN_SORTS.includes(sort as typeof SCAN_SORTS[number])) {
+    return { message: `Sort must be one of ${SCAN_SORTS.join(', ')}` };
+  }
+  if (!Array.isArray(columns) || columns.some(column => !SCAN_COLUMNS.includes(column))) {
+    return { message: `Columns must be a list of ${SCAN_COLUMNS.join(', ')}` };
+  }
+
+  return {
+    scan: {
+      name: name.trim(),
+      universe: universe as string | null,
+      filter: trimmedFilter,
+      sort: sort as ScanDefinition['sort'],
+      columns: SCAN_COLUMNS.filter(column => columns.includes(column))
+    }
+  };
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string }).code === '23505';
+}
+
+export async function GET() {
+  const userId = await getUserIdFromToken();
+  if (!userId) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await listSavedScans(userId));
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST { name, universe?, filter?, sort?, columns? }
+export async function POST(request: Request) {
+  const userId = await getUserIdFromToken();
+  if (!userId) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  const parsed = await parseScan(await request.json(), userId);
+  if ('message' in parsed) {
+    return NextResponse.json({ message: parsed.message }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await createSavedScan(userId, parsed.scan), { status: 201 });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return NextResponse.json({ message: 'You already have a scan with this name' }, { status: 409 });
+    }
+    console.error(error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT { id, name, universe?, filter?, sort?, columns? } replaces a saved scan
+export async function PUT(request: Request) {
+  const userId = await getUserIdFromToken();
+  if (!userId) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await request.json();
+  if (!Number.isInteger(body.id)) {
+    return NextResponse.json({ message: 'Scan id is required' }, { status: 400 });
+  }
+  const parsed = await parseScan(body, userId);
+  if ('message' in parsed) {
+    return NextResponse.json({ message: parsed.message }, { status: 400 });
+  }
+
+  try {
+    const scan = await updateSavedScan(userId, body.id, parsed.scan);
+    if (!scan) {
+      return NextResponse.json({ message: 'Scan not found' }, { status: 404 });
+    }
+    return NextResponse.json(scan);
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return NextResponse.json({ message: 'You already have a scan with this name' }, { status: 409 });
+    }
+    console.error(error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request) {
+  const userId = await getUserIdFromToken();
+  if (!userId) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id } = await request.json();
+  if (!Number.isInteger(id)) {
+    return NextResponse.json({ message: 'Scan id is required' }, { status: 400 });
+  }
+
+  try {
+    const deleted = await deleteSavedScan(userId, id);
+    if (!deleted) {
+      return NextResponse.json({ message: 'Scan not found' }, { status: 404 });
+    }
+    return NextResponse.json({ message: 'Scan deleted' });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
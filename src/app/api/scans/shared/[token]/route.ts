@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getSharedScan } from '../../../../../lib/savedScans';
+
+// GET /api/scans/shared/<token>: a saved scan behind a share link, readable without logging in
+export async function GET(_request: Request, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+
+  try {
+    const scan = await getSharedScan(token);
+    if (!scan) {
+      return NextResponse.json({ message: 'Scan not found' }, { status: 404 });
+    }
+    const { name, universe, filter, sort, columns, shareToken, updatedAt } = scan;
+    return NextResponse.json({ name, universe, filter, sort, columns, shareToken, updatedAt });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
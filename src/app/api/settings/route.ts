@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { getUserIdFromToken } from '../../../lib/auth';
+import { getUserSupertrendConfigs, SUPERTREND_CONFIGS } from '../../../lib/scanner';
+import { deleteSupertrendOverride, getSupertrendOverrides, saveSupertrendOverride } from '../../../lib/supertrendSettings';
+import { ATR_SMOOTHINGS, SUPERTREND_SOURCES } from '../../../lib/indicators';
+import { TIMEFRAMES } from '../../../lib/resample';
+
+// The logged-in user's Supertrend settings for every timeframe, and which ones they've changed
+export async function GET() {
+  const userId = await getUserIdFromToken();
+  if (!userId) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const [settings, overrides] = await Promise.all([getUserSupertrendConfigs(userId), getSupertrendOverrides({ userId })]);
+    return NextResponse.json({ settings, defaults: SUPERTREND_CONFIGS, customized: Object.keys(overrides) });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT { timeframe, atrPeriod, factor, source, atrSmoothing }
+export async function PUT(request: Request) {
+  const userId = await getUserIdFromToken();
+  if (!userId) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { timeframe, atrPeriod, factor, source = 'hl2', atrSmoothing = 'rma' } = await request.json();
+  if (!TIMEFRAMES.includes(timeframe)) {
+    return NextResponse.json({ message: `Timeframe must be one of ${TIMEFRAMES.join(', ')}` }, { status: 400 });
+  }
+  if (!Number.isInteger(atrPeriod) || atrPeriod < 1 || atrPeriod > 100) {
+    return NextResponse.json({ message: 'ATR period must be a whole number from 1 to 100' }, { status: 400 });
+  }
+  if (typeof factor !== 'number' || !(factor > 0 && factor <= 20)) {
+    return NextResponse.json({ message: 'Factor must be a number above 0 and at most 20' }, { status: 400 });
+  }
+  if (!SUPERTREND_SOURCES.includes(source)) {
+    return NextResponse.json({ message: `Source must be one of ${SUPERTREND_SOURCES.join(', ')}` }, { status: 400 });
+  }
+  if (!ATR_SMOOTHINGS.includes(atrSmoothing)) {
+    return NextResponse.json({ message: `ATR smoothing must be one of ${ATR_SMOOTHINGS.join(', ')}` }, { status: 400 });
+  }
+
+  try {
+    await saveSupertrendOverride({ userId }, timeframe, { atrPeriod, factor, source, atrSmoothing });
+    return NextResponse.json({ message: 'Settings saved' });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE { timeframe } restores the default for the timeframe
+export async function DELETE(request: Request) {
+  const userId = await getUserIdFromToken();
+  if (!userId) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { timeframe } = await request.json();
+  if (!TIMEFRAMES.includes(timeframe)) {
+    return NextResponse.json({ message: `Timeframe must be one of ${TIMEFRAMES.join(', ')}` }, { status: 400 });
+  }
+
+  try {
+    await deleteSupertrendOverride({ userId }, timeframe);
+    return NextResponse.json({ message: 'Settings reset' });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { listSignalEvents } from "../../../lib/signalEvents";
+import { TIMEFRAMES, type Timeframe } from "../../../lib/resample";
+
+function badRequest(error: string, message: string) {
+  return NextResponse.json({ error, message, timestamp: new Date().toISOString() }, { status: 400 });
+}
+
+// GET /api/signals?symbol=AAPL&type=stock&timeframe=1D&limit=50
+// Supertrend and trend changes logged by the scheduled scan, newest first; every timeframe without timeframe
+export async function GET(request: Request) {
+  const searchParams = new URL(request.url).searchParams;
+  const symbol = searchParams.get("symbol");
+  const type = searchParams.get("type") || "stock";
+  const timeframe = searchParams.get("timeframe");
+  const limit = Number(searchParams.get("limit") || 100);
+
+  if (!symbol) {
+    return badRequest("Missing symbol", "symbol is required");
+  }
+  if (type !== "stock" && type !== "crypto") {
+    return badRequest("Invalid type", 'type must be "stock" or "crypto"');
+  }
+  if (timeframe !== null && !TIMEFRAMES.includes(timeframe as Timeframe)) {
+    return badRequest("Invalid timeframe", `timeframe must be one of ${TIMEFRAMES.join(", ")}`);
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+    return badRequest("Invalid limit", "limit must be a whole number from 1 to 500");
+  }
+
+  try {
+    const events = await listSignalEvents(type, symbol, timeframe as Timeframe | null, limit);
+    return NextResponse.json({ symbol: symbol.toUpperCase(), type, timeframe, events });
+  } catch (error) {
+    console.error(`Error fetching signals for ${symbol}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error", message: "Failed to fetch signal history", timestamp: new Date().toISOString() },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { searchSymbols } from "../../../lib/symbols";
+
+function badRequest(error: string, message: string) {
+  return NextResponse.json({ error, message, timestamp: new Date().toISOString() }, { status: 400 });
+}
+
+// GET /api/symbols?q=app&type=stock&limit=10
+// Registered symbols matching the query by ticker prefix or name, for search-as-you-type
+export async function GET(request: Request) {
+  const searchParams = new URL(request.url).searchParams;
+  const query = (searchParams.get("q") || "").trim();
+  const type = searchParams.get("type");
+  const limit = Number(searchParams.get("limit") || 10);
+
+  if (!query || query.length > 50) {
+    return badRequest("Invalid query", "q is required and must be at most 50 characters");
+  }
+  if (type !== null && type !== "stock" && type !== "crypto") {
+    return badRequest("Invalid type", 'type must be "stock" or "crypto"');
+  }
+  if (!Number.isInteger(limit) || limit < 1 || limit > 50) {
+    return badRequest("Invalid limit", "limit must be a whole number from 1 to 50");
+  }
+
+  try {
+    const symbols = await searchSymbols(query, limit, type);
+    return NextResponse.json({ query, symbols });
+  } catch (error) {
+    console.error(`Error searching symbols for ${query}:`, error);
+    return NextResponse.json(
+      { error: "Internal server error", message: "Failed to search symbols", timestamp: new Date().toISOString() },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,130 @@
+import { NextResponse } from 'next/server';
+import { getUserIdFromToken } from '../../../lib/auth';
+import type { SymbolInfo } from '../../../lib/providers';
+import { findSymbols, parseTicker } from '../../../lib/symbols';
+import { createUserUniverse, deleteUserUniverse, listUniverses } from '../../../lib/universes';
+
+// Lengths of the universes and universe_members columns
+const MAX_NAME_LENGTH = 100;
+const MAX_MEMBER_NAME_LENGTH = 255;
+const MAX_EXCHANGE_LENGTH = 20;
+const MAX_SECTOR_LENGTH = 100;
+const MAX_UNIVERSE_SYMBOLS = 500;
+
+type Member = Omit<SymbolInfo, 'type'>;
+
+function isOptionalText(value: unknown, maxLength: number): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.length <= maxLength);
+}
+
+/**
+ * Members from a request's symbols, which may be bare tickers or
+ * { symbol, name, exchange, sector } objects, or the reason they're invalid
+ */
+function parseMembers(symbols: unknown[]): { members: Member[] } | { message: string } {
+  const members: Member[] = [];
+  for (const [index, entry] of symbols.entries()) {
+    const fields = (typeof entry === 'object' && entry !== null ? entry : { symbol: entry }) as Record<string, unknown>;
+    const symbol = parseTicker(fields.symbol);
+    if (!symbol) {
+      return { message: `Symbol ${index + 1} is not a ticker` };
+    }
+    if (
+      !isOptionalText(fields.name, MAX_MEMBER_NAME_LENGTH) ||
+      !isOptionalText(fields.exchange, MAX_EXCHANGE_LENGTH) ||
+      !isOptionalText(fields.sector, MAX_SECTOR_LENGTH)
+    ) {
+      return {
+        message: `Name, exchange and sector of ${symbol} must be text of at most ${MAX_MEMBER_NAME_LENGTH}, ${MAX_EXCHANGE_LENGTH} and ${MAX_SECTOR_LENGTH} characters`
+      };
+    }
+    members.push({
+      symbol,
+      name: (fields.name as string | null | undefined) || '',
+      exchange: (fields.exchange as string | null | undefined) || undefined,
+      sector: (fields.sector as string | null | undefined) || undefined
+    });
+  }
+  return { members };
+}
+
+export async function GET() {
+  const userId = await getUserIdFromToken();
+  const universes = await listUniverses(userId);
+  return NextResponse.json(universes);
+}
+
+export async function POST(request: Request) {
+  const userId = await getUserIdFromToken();
+  if (!userId) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { name, assetType, symbols } = await request.json();
+  if (typeof name !== 'string' || !name.trim() || !Array.isArray(symbols) || symbols.length === 0) {
+    return NextResponse.json({ message: 'Universe name and symbols are required' }, { status: 400 });
+  }
+  if (name.trim().length > MAX_NAME_LENGTH || symbols.length > MAX_UNIVERSE_SYMBOLS) {
+    return NextResponse.json(
+      { message: `Universes are limited to names of ${MAX_NAME_LENGTH} characters and ${MAX_UNIVERSE_SYMBOLS} symbols` },
+      { status: 400 }
+    );
+  }
+  if (assetType !== 'stock' && assetType !== 'crypto') {
+    return NextResponse.json({ message: 'Asset type must be stock or crypto' }, { status: 400 });
+  }
+  const parsed = parseMembers(symbols);
+  if ('message' in parsed) {
+    return NextResponse.json({ message: parsed.message }, { status: 400 });
+  }
+
+  try {
+    // Every symbol must be registered as the universe's type; the registry fills in what the request leaves out
+    const known = await findSymbols(parsed.members.map(member => member.symbol), assetType);
+    const unknown = parsed.members.filter(member => !known.has(member.symbol)).map(member => member.symbol);
+    if (unknown.length > 0) {
+      return NextResponse.json({ message: `Unknown ${assetType} symbols: ${unknown.join(', ')}` }, { status: 400 });
+    }
+    const members = parsed.members.map(member => {
+      const info = known.get(member.symbol) as SymbolInfo;
+      return {
+        symbol: info.symbol,
+        name: member.name || info.name,
+        exchange: member.exchange ?? info.exchange,
+        sector: member.sector ?? info.sector
+      };
+    });
+
+    const universe = await createUserUniverse(userId, name.trim(), assetType, members);
+    return NextResponse.json(universe, { status: 201 });
+  } catch (error) {
+    console.error(error);
+    if ((error as { code?: string }).code === '23505') {
+      return NextResponse.json({ message: 'A universe with this name already exists' }, { status: 409 });
+    }
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: Request) {
+  const userId = await getUserIdFromToken();
+  if (!userId) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { slug } = await request.json();
+  if (!slug) {
+    return NextResponse.json({ message: 'Universe slug is required' }, { status: 400 });
+  }
+
+  try {
+    const deleted = await deleteUserUniverse(userId, slug);
+    if (!deleted) {
+      return NextResponse.json({ message: 'Universe not found' }, { status: 404 });
+    }
+    return NextResponse.json({ message: 'Universe deleted' });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,20 +1,15 @@
 import { NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
-import jwt from 'jsonwebtoken';
-import { sql } from '@vercel/postgres';
+import { getUserIdFromToken } from '../../../lib/auth';
+import { findSymbol, parseTicker } from '../../../lib/symbols';
+import { addWatchlistItem, listWatchlists, removeWatchlistItem } from '../../../lib/watchlists';
 
-async function getUserIdFromToken(): Promise<number | null> {
-  const cookieStore = await cookies();
-  const token = cookieStore.get('token')?.value;
-  if (!token) {
-    return null;
-  }
-  try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'your-secret-key') as { userId: number };
-    return decoded.userId;
-  } catch (error) {
-    return null;
-  }
+// Deprecated: the single watchlist API from before named lists. It reads and
+// writes the user's first list and answers with that list's symbols; use
+// /api/watchlists instead.
+
+async function defaultListSymbols(userId: number): Promise<string[]> {
+  const [list] = await listWatchlists(userId);
+  return list.items.map(item => item.symbol);
 }
 
 export async function GET() {
@@ -24,11 +19,7 @@ export async function GET() {
   }
 
   try {
-    const { rows } = await sql`
-      SELECT symbol FROM watchlists WHERE user_id = ${userId}
-    `;
-    const symbols = rows.map((row) => row.symbol);
-    return NextResponse.json(symbols);
+    return NextResponse.json(await defaultListSymbols(userId));
   } catch (error) {
     console.error(error);
     return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
@@ -42,22 +33,18 @@ export async function POST(request: Request) {
   }
 
   const { symbol } = await request.json();
-  if (!symbol) {
+  if (!parseTicker(symbol)) {
     return NextResponse.json({ message: 'Stock symbol is required' }, { status: 400 });
   }
 
   try {
-    await sql`
-      INSERT INTO watchlists (user_id, symbol)
-      VALUES (${userId}, ${symbol})
-      ON CONFLICT (user_id, symbol) DO NOTHING
-    `;
-
-    const { rows } = await sql`
-      SELECT symbol FROM watchlists WHERE user_id = ${userId}
-    `;
-    const symbols = rows.map((row) => row.symbol);
-    return NextResponse.json(symbols);
+    const info = await findSymbol(symbol);
+    if (!info) {
+      return NextResponse.json({ message: `Unknown symbol ${parseTicker(symbol)}` }, { status: 400 });
+    }
+    const [list] = await listWatchlists(userId);
+    await addWatchlistItem(userId, list.id, info.symbol, info.type);
+    return NextResponse.json(await defaultListSymbols(userId));
   } catch (error) {
     console.error(error);
     return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
@@ -70,23 +57,17 @@ export async function DELETE(request: Request) {
     return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
   }
 
-  const { symbol } = await request.json();
+  const symbol = parseTicker((await request.json()).symbol);
   if (!symbol) {
     return NextResponse.json({ message: 'Stock symbol is required' }, { status: 400 });
   }
 
   try {
-    await sql`
-      DELETE FROM watchlists WHERE user_id = ${userId} AND symbol = ${symbol}
-    `;
-
-    const { rows } = await sql`
-      SELECT symbol FROM watchlists WHERE user_id = ${userId}
-    `;
-    const symbols = rows.map((row) => row.symbol);
-    return NextResponse.json(symbols);
+    const [list] = await listWatchlists(userId);
+    await removeWatchlistItem(userId, list.id, symbol);
+    return NextResponse.json(await defaultListSymbols(userId));
   } catch (error) {
     console.error(error);
     return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
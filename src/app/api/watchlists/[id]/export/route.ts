@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { getUserIdFromToken } from '../../../../../lib/auth';
+import { WATCHLIST_FORMATS, exportWatchlist, type WatchlistFormat } from '../../../../../lib/watchlistTransfer';
+import { listWatchlists } from '../../../../../lib/watchlists';
+
+type Params = { params: Promise<{ id: string }> };
+
+// GET ?format=csv|tradingview downloads the list
+export async function GET(request: Request, { params }: Params) {
+  const userId = await getUserIdFromToken();
+  if (!userId) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  const watchlistId = Number((await params).id);
+  const format = new URL(request.url).searchParams.get('format') ?? 'csv';
+  if (!WATCHLIST_FORMATS.includes(format as WatchlistFormat)) {
+    return NextResponse.json({ message: `Format must be one of ${WATCHLIST_FORMATS.join(', ')}` }, { status: 400 });
+  }
+
+  try {
+    const list = (await listWatchlists(userId)).find(l => l.id === watchlistId);
+    if (!list) {
+      return NextResponse.json({ message: 'List not found' }, { status: 404 });
+    }
+
+    const body = await exportWatchlist(list, format as WatchlistFormat);
+    const filename = `${list.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'watchlist'}.${format === 'csv' ? 'csv' : 'txt'}`;
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'text/plain; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`
+      }
+    });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { getUserIdFromToken } from '../../../../../lib/auth';
+import {
+  MAX_IMPORT_LENGTH,
+  MAX_IMPORT_ROWS,
+  WATCHLIST_FORMATS,
+  countImportEntries,
+  previewWatchlistImport,
+  type WatchlistFormat
+} from '../../../../../lib/watchlistTransfer';
+import type { AssetType } from '../../../../../lib/providers';
+import { addWatchlistItems, listWatchlists } from '../../../../../lib/watchlists';
+
+type Params = { params: Promise<{ id: string }> };
+
+// POST { format, text, dryRun? } checks every entry and, unless dryRun, adds the new ones to the list
+export async function POST(request: Request, { params }: Params) {
+  const userId = await getUserIdFromToken();
+  if (!userId) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  const watchlistId = Number((await params).id);
+  const { format, text, dryRun = false } = await request.json();
+  if (!WATCHLIST_FORMATS.includes(format)) {
+    return NextResponse.json({ message: `Format must be one of ${WATCHLIST_FORMATS.join(', ')}` }, { status: 400 });
+  }
+  if (typeof text !== 'string' || !text.trim() || text.length > MAX_IMPORT_LENGTH) {
+    return NextResponse.json({ message: `Text is required and must be at most ${MAX_IMPORT_LENGTH} characters` }, { status: 400 });
+  }
+  if (countImportEntries(text, format as WatchlistFormat) > MAX_IMPORT_ROWS) {
+    return NextResponse.json({ message: `Imports are limited to ${MAX_IMPORT_ROWS} symbols` }, { status: 400 });
+  }
+
+  try {
+    const target = (await listWatchlists(userId)).find(list => list.id === watchlistId);
+    if (!target) {
+      return NextResponse.json({ message: 'List not found' }, { status: 404 });
+    }
+
+    const rows = await previewWatchlistImport(text, format as WatchlistFormat, target);
+    const additions = rows.filter(row => row.status === 'new');
+    if (dryRun === true) {
+      return NextResponse.json({ dryRun: true, rows, added: 0 });
+    }
+
+    const added = await addWatchlistItems(userId, watchlistId, additions.map(row => ({ symbol: row.symbol as string, type: row.type as AssetType, ...row.details })));
+    if (added === null) {
+      return NextResponse.json({ message: 'List not found' }, { status: 404 });
+    }
+    return NextResponse.json({ dryRun: false, rows, added, watchlists: await listWatchlists(userId) });
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
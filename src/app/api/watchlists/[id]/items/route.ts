@@ -0,0 +1,151 @@
+import { NextResponse } from 'next/server';
+import { getUserIdFromToken } from '../../../../../lib/auth';
+import { findSymbol, parseTicker } from '../../../../../lib/symbols';
+import {
+  addWatchlistItem,
+  listWatchlists,
+  removeWatchlistItem,
+  reorderWatchlistItems,
+  parseWatchlistItemDetails,
+  updateWatchlistItem
+} from '../../../../../lib/watchlists';
+
+type Params = { params: Promise<{ id: string }> };
+
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string }).code === '23505';
+}
+
+const notFound = () => NextResponse.json({ message: 'List or symbol not found' }, { status: 404 });
+
+// POST { symbol, type?, note?, tags?, targetPrice? } adds a registered symbol to the end of the list
+export async function POST(request: Request, { params }: Params) {
+  const userId = await getUserIdFromToken();
+  if (!userId) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  const watchlistId = Number((await params).id);
+  if (!Number.isInteger(watchlistId)) {
+    return notFound();
+  }
+  const body = await request.json();
+  const symbol = parseTicker(body.symbol);
+  if (!symbol) {
+    return NextResponse.json({ message: 'Symbol is required' }, { status: 400 });
+  }
+  const type = body.type ?? null;
+  if (type !== null && type !== 'stock' && type !== 'crypto') {
+    return NextResponse.json({ message: 'Type must be "stock" or "crypto"' }, { status: 400 });
+  }
+  const parsed = parseWatchlistItemDetails(body);
+  if ('message' in parsed) {
+    return NextResponse.json({ message: parsed.message }, { status: 400 });
+  }
+
+  try {
+    const info = await findSymbol(body.symbol, type);
+    if (!info) {
+      return NextResponse.json({ message: `Unknown symbol ${symbol}` }, { status: 400 });
+    }
+    if (!(await addWatchlistItem(userId, watchlistId, info.symbol, info.type, parsed.details))) {
+      return notFound();
+    }
+    return NextResponse.json(await listWatchlists(userId));
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PATCH { symbol, note?, tags?, targetPrice?, moveTo? } edits a symbol, and with moveTo moves it to another list
+export async function PATCH(request: Request, { params }: Params) {
+  const userId = await getUserIdFromToken();
+  if (!userId) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  const watchlistId = Number((await params).id);
+  if (!Number.isInteger(watchlistId)) {
+    return notFound();
+  }
+  const body = await request.json();
+  const symbol = parseTicker(body.symbol);
+  if (!symbol) {
+    return NextResponse.json({ message: 'Symbol is required' }, { status: 400 });
+  }
+  if (body.moveTo !== undefined && !Number.isInteger(body.moveTo)) {
+    return NextResponse.json({ message: 'moveTo must be a list id' }, { status: 400 });
+  }
+  const parsed = parseWatchlistItemDetails(body);
+  if ('message' in parsed) {
+    return NextResponse.json({ message: parsed.message }, { status: 400 });
+  }
+
+  try {
+    if (!(await updateWatchlistItem(userId, watchlistId, symbol, parsed.details, body.moveTo ?? null))) {
+      return notFound();
+    }
+    return NextResponse.json(await listWatchlists(userId));
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return NextResponse.json({ message: `${symbol} is already on that list` }, { status: 409 });
+    }
+    console.error(error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PUT { symbols } sets the list's order
+export async function PUT(request: Request, { params }: Params) {
+  const userId = await getUserIdFromToken();
+  if (!userId) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  const watchlistId = Number((await params).id);
+  if (!Number.isInteger(watchlistId)) {
+    return notFound();
+  }
+  const { symbols } = await request.json();
+  if (!Array.isArray(symbols) || symbols.some(symbol => !parseTicker(symbol))) {
+    return NextResponse.json({ message: 'Symbols must be a list of tickers' }, { status: 400 });
+  }
+
+  try {
+    if (!(await reorderWatchlistItems(userId, watchlistId, symbols.map(symbol => parseTicker(symbol) as string)))) {
+      return notFound();
+    }
+    return NextResponse.json(await listWatchlists(userId));
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE { symbol } removes a symbol from the list
+export async function DELETE(request: Request, { params }: Params) {
+  const userId = await getUserIdFromToken();
+  if (!userId) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  const watchlistId = Number((await params).id);
+  if (!Number.isInteger(watchlistId)) {
+    return notFound();
+  }
+  const symbol = parseTicker((await request.json()).symbol);
+  if (!symbol) {
+    return NextResponse.json({ message: 'Symbol is required' }, { status: 400 });
+  }
+
+  try {
+    if (!(await removeWatchlistItem(userId, watchlistId, symbol))) {
+      return notFound();
+    }
+    return NextResponse.json(await listWatchlists(userId));
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,102 @@
+import { NextResponse } from 'next/server';
+import { getUserIdFromToken } from '../../../lib/auth';
+import { createWatchlist, deleteWatchlist, listWatchlists, renameWatchlist } from '../../../lib/watchlists';
+
+function isListName(name: unknown): name is string {
+  return typeof name === 'string' && name.trim().length > 0 && name.trim().length <= 100;
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string }).code === '23505';
+}
+
+// Every change answers with the user's lists, like GET
+export async function GET() {
+  const userId = await getUserIdFromToken();
+  if (!userId) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await listWatchlists(userId));
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// POST { name } creates an empty list
+export async function POST(request: Request) {
+  const userId = await getUserIdFromToken();
+  if (!userId) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { name } = await request.json();
+  if (!isListName(name)) {
+    return NextResponse.json({ message: 'List name is required and must be at most 100 characters' }, { status: 400 });
+  }
+
+  try {
+    await createWatchlist(userId, name.trim());
+    return NextResponse.json(await listWatchlists(userId), { status: 201 });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return NextResponse.json({ message: 'You already have a list with this name' }, { status: 409 });
+    }
+    console.error(error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// PATCH { id, name } renames a list
+export async function PATCH(request: Request) {
+  const userId = await getUserIdFromToken();
+  if (!userId) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id, name } = await request.json();
+  if (!Number.isInteger(id)) {
+    return NextResponse.json({ message: 'List id is required' }, { status: 400 });
+  }
+  if (!isListName(name)) {
+    return NextResponse.json({ message: 'List name is required and must be at most 100 characters' }, { status: 400 });
+  }
+
+  try {
+    if (!(await renameWatchlist(userId, id, name.trim()))) {
+      return NextResponse.json({ message: 'List not found' }, { status: 404 });
+    }
+    return NextResponse.json(await listWatchlists(userId));
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return NextResponse.json({ message: 'You already have a list with this name' }, { status: 409 });
+    }
+    console.error(error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// DELETE { id } deletes a list and its symbols
+export async function DELETE(request: Request) {
+  const userId = await getUserIdFromToken();
+  if (!userId) {
+    return NextResponse.json({ message: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { id } = await request.json();
+  if (!Number.isInteger(id)) {
+    return NextResponse.json({ message: 'List id is required' }, { status: 400 });
+  }
+
+  try {
+    if (!(await deleteWatchlist(userId, id))) {
+      return NextResponse.json({ message: 'List not found' }, { status: 404 });
+    }
+    return NextResponse.json(await listWatchlists(userId));
+  } catch (error) {
+    console.error(error);
+    return NextResponse.json({ message: 'Internal server error' }, { status: 500 });
+  }
+}
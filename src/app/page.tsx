@@ -1,7 +1,7 @@
 "use client";
 
 import { useRouter } from "next/navigation";
-import { useState, useMemo, useEffect } from "react";
+import React, { useState, useMemo, useEffect } from "react";
 import {
   Box,
   Container,
@@ -33,24 +33,52 @@ import {
   Grid,
   GridItem,
   Center,
+  Select,
   Modal,
   ModalOverlay,
   ModalContent,
   ModalHeader,
   ModalCloseButton,
   ModalBody,
+  Menu,
+  MenuButton,
+  MenuList,
+  MenuOptionGroup,
+  MenuItemOption,
   useDisclosure,
 } from "@chakra-ui/react";
 import { SearchIcon, SunIcon, MoonIcon } from "@chakra-ui/icons";
 import Chart from "../components/Chart";
+import EquityChart from "../components/EquityChart";
+import IndicatorSettings from "../components/IndicatorSettings";
+import SignalTimeline from "../components/SignalTimeline";
+import Alerts, { type AlertDraft } from "../components/Alerts";
+import SavedScans, { type ScanView } from "../components/SavedScans";
+import WatchlistStar, { type Watchlist } from "../components/WatchlistStar";
+import Watchlists from "../components/Watchlists";
+
+const TIMEFRAMES = ["45M", "2H", "4H", "1D", "3D", "1W"] as const;
+
+// Table columns that can be hidden; mirrors SCAN_COLUMNS in lib/savedScans
+const COLUMNS: { key: string; label: string }[] = [
+  { key: "price", label: "Price" },
+  { key: "alignment", label: "Alignment" },
+  ...TIMEFRAMES.flatMap((tf) => [
+    { key: `trend.${tf}`, label: `${tf} Trend` },
+    { key: `st.${tf}`, label: `${tf} ST` },
+  ]),
+  { key: "watchlist", label: "Watchlist" },
+];
 
 interface TrendData {
   trend: string;
-  confidence: number;
-  startDate: string;
+  strength: number | null;
+  startDate: string | null;
+  bars: number;
 }
 
 interface SupertrendResult {
+  time: string;
   value: number;
   direction: 'up' | 'down';
   signal: 'buy' | 'sell' | 'hold';
@@ -59,11 +87,25 @@ interface SupertrendResult {
   basicLowerBand: number;
 }
 
+interface IndicatorSnapshot {
+  rsi: number | null;
+  macd: { macd: number; signal: number; histogram: number } | null;
+  sma20: number | null;
+  sma50: number | null;
+  ema20: number | null;
+  ema50: number | null;
+  wma20: number | null;
+  bollinger: { middle: number; upper: number; lower: number } | null;
+}
+
 interface Asset {
   name: string;
   symbol: string;
   type: "stock" | "crypto";
+  exchange?: string;
+  sector?: string;
   price?: number;
+  universe?: string; // Universe it was scanned in; the chart and backtest use its settings
   "45M": TrendData;
   "2H": TrendData;
   "4H": TrendData;
@@ -78,7 +120,65 @@ interface Asset {
     "3D": SupertrendResult | null;
     "1W": SupertrendResult | null;
   };
-  ohlc?: { time: string; open: number; high: number; low: number; close: number }[];
+  indicators?: Record<string, IndicatorSnapshot>;
+  confluence?: {
+    score: number;
+    bullish: number;
+    bearish: number;
+    aligned: "bullish" | "bearish" | null;
+  };
+  ohlc?: { time: string; open: number; high: number; low: number; close: number; volume: number }[];
+}
+
+// "just now", "12 min ago", "3 h ago"
+function formatScanAge(scannedAt: string): string {
+  const minutes = Math.floor((Date.now() - Date.parse(scannedAt)) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  return `${Math.floor(minutes / 60)} h ago`;
+}
+
+// Daily trend starts are dates; intraday ones are ISO times
+function formatTrendStart(startDate: string): string {
+  const date = new Date(startDate);
+  return startDate.includes("T")
+    ? date.toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })
+    : date.toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" });
+}
+
+interface AssetSeries {
+  symbol: string;
+  timeframe: string;
+  candles: { time: string; open: number; high: number; low: number; close: number; volume: number }[];
+  supertrend: SupertrendResult[];
+}
+
+interface BacktestResult {
+  trades: { direction: "long" | "short"; pnl: number; open: boolean }[];
+  equityCurve: { time: string; equity: number }[];
+  metrics: {
+    initialCapital: number;
+    finalEquity: number;
+    totalReturnPct: number;
+    cagrPct: number | null;
+    trades: number;
+    winRatePct: number | null;
+    profitFactor: number | null;
+    maxDrawdownPct: number;
+    commissionPaid: number;
+  };
+}
+
+interface OptimizationResult {
+  metric: string;
+  outOfSampleScore: number | null;
+  winner: { config: { atrPeriod: number; factor: number; source: string; atrSmoothing: string }; score: number | null } | null;
+}
+
+interface UniverseOption {
+  slug: string;
+  name: string;
+  assetType: "stock" | "crypto";
 }
 
 export default function Home() {
@@ -87,10 +187,41 @@ export default function Home() {
   const [error, setError] = useState<string | null>(null);
   const [assetType, setAssetType] = useState<"all" | "stock" | "crypto">("stock");
   const [searchTerm, setSearchTerm] = useState("");
-  const [watchlist, setWatchlist] = useState<string[]>([]);
+  const [alignmentFilter, setAlignmentFilter] = useState<"any" | "bullish" | "bearish">("any");
+  const [alignmentSort, setAlignmentSort] = useState<"none" | "desc" | "asc">("none");
+  const [filterInput, setFilterInput] = useState("");
+  const [screenerFilter, setScreenerFilter] = useState(""); // Applied filter, sent to /api/data
+  const [filterError, setFilterError] = useState<{ message: string; position: number } | null>(null);
+  const [visibleColumns, setVisibleColumns] = useState<string[]>(COLUMNS.map((column) => column.key));
+  // Share token from /?scan=...; undefined until the URL has been read
+  const [sharedToken, setSharedToken] = useState<string | null | undefined>(undefined);
+  const [sharedScanName, setSharedScanName] = useState<string | null>(null);
+  const [universes, setUniverses] = useState<UniverseOption[]>([]);
+  const [universe, setUniverse] = useState<string>(""); // Empty scans the default universes
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+  const [scannedAt, setScannedAt] = useState<string | null>(null);
+  const [settingsPending, setSettingsPending] = useState<boolean>(false); // Showing default settings until the next scan applies the user's
+  const [pendingUniverses, setPendingUniverses] = useState<string[]>([]); // Not scanned by the background scan yet
   const [selectedAsset, setSelectedAsset] = useState<Asset | null>(null);
   const [chartTimeframe, setChartTimeframe] = useState<string>("1D");
+  const [seriesTimeframe, setSeriesTimeframe] = useState<string>("1D");
+  const [assetSeries, setAssetSeries] = useState<AssetSeries | null>(null);
+  const [seriesLoading, setSeriesLoading] = useState<boolean>(false);
+  const [backtestMode, setBacktestMode] = useState<"long-only" | "long-short">("long-only");
+  const [commissionPct, setCommissionPct] = useState<string>("0.1"); // Percent per fill
+  const [slippagePct, setSlippagePct] = useState<string>("0.05");
+  const [backtest, setBacktest] = useState<BacktestResult | null>(null);
+  const [backtestError, setBacktestError] = useState<string | null>(null);
+  const [optimization, setOptimization] = useState<OptimizationResult | null>(null);
+  const [optimizing, setOptimizing] = useState<boolean>(false);
+  const [optimizationMessage, setOptimizationMessage] = useState<string | null>(null);
+  const [settingsVersion, setSettingsVersion] = useState<number>(0); // Bumped when indicator settings change
   const { isOpen, onOpen, onClose } = useDisclosure();
+  const settingsDisclosure = useDisclosure();
+  const alertsDisclosure = useDisclosure();
+  const watchlistsDisclosure = useDisclosure();
+  const [alertDraft, setAlertDraft] = useState<AlertDraft | null>(null);
+  const [unreadAlerts, setUnreadAlerts] = useState<number>(0);
   const router = useRouter();
 
   // All hooks must be called at the top level, in the same order every time
@@ -106,13 +237,63 @@ export default function Home() {
   const emptyStateBg = useColorModeValue("gray.100", "gray.700");
   const watchlistBg = useColorModeValue("yellow.100", "yellow.800");
 
+  // A shared scan link opens that scan read-only
+  useEffect(() => {
+    setSharedToken(new URLSearchParams(window.location.search).get("scan"));
+  }, []);
+
+  useEffect(() => {
+    if (!sharedToken) {
+      return;
+    }
+    const fetchSharedScan = async () => {
+      try {
+        const res = await fetch(`/api/scans/shared/${encodeURIComponent(sharedToken)}`);
+        if (res.ok) {
+          const scan = await res.json();
+          setSharedScanName(scan.name);
+          setUniverse(scan.universe ?? "");
+          setAssetType("all");
+          setFilterInput(scan.filter ?? "");
+          setAlignmentSort(scan.sort === "alignment:desc" ? "desc" : scan.sort === "alignment:asc" ? "asc" : "none");
+          setVisibleColumns(scan.columns);
+        } else {
+          console.error('Failed to fetch shared scan');
+        }
+      } catch (error) {
+        console.error('Error fetching shared scan:', error);
+      }
+    };
+    fetchSharedScan();
+  }, [sharedToken]);
+
   // Fetch data from API
   useEffect(() => {
+    if (sharedToken === undefined) {
+      return;
+    }
     const fetchData = async () => {
       try {
         setLoading(true);
         setError(null);
-        const response = await fetch('/api/data');
+        const params = new URLSearchParams();
+        if (sharedToken) {
+          // The server applies the shared scan's universe and filter
+          params.set("scan", sharedToken);
+        } else {
+          if (universe) params.set("universe", universe);
+          if (screenerFilter) params.set("filter", screenerFilter);
+        }
+        const response = await fetch(params.toString() ? `/api/data?${params}` : '/api/data');
+
+        // A filter the server can't parse is shown under the query bar, keeping the current results
+        if (response.status === 400 && screenerFilter) {
+          const data = await response.json();
+          if (data.error === "Invalid filter") {
+            setFilterError({ message: data.message, position: data.position });
+            return;
+          }
+        }
         
         if (!response.ok) {
           throw new Error(`HTTP error! status: ${response.status}`);
@@ -133,6 +314,11 @@ export default function Home() {
         ];
         
         setAllAssets(combinedAssets);
+        setScannedAt(data.metadata?.scannedAt ?? null);
+        setFilterError(null);
+        // Custom indicator settings are applied by the background scan
+        setSettingsPending(data.metadata?.indicatorSettings === "pending");
+        setPendingUniverses(data.metadata?.pendingUniverses ?? []);
       } catch (err) {
         console.error('Error fetching data:', err);
         setError(err instanceof Error ? err.message : 'Failed to fetch data');
@@ -142,26 +328,155 @@ export default function Home() {
     };
 
     fetchData();
+  }, [universe, screenerFilter, sharedToken, settingsVersion]);
+
+  // Fetch available universes
+  useEffect(() => {
+    const fetchUniverses = async () => {
+      try {
+        const res = await fetch('/api/universes');
+        if (res.ok) {
+          setUniverses(await res.json());
+        } else {
+          console.error('Failed to fetch universes');
+        }
+      } catch (error) {
+        console.error('Error fetching universes:', error);
+      }
+    };
+    fetchUniverses();
   }, []);
 
-  // Fetch watchlist
+  // Fetch the selected asset's candles and Supertrend series for the chart
   useEffect(() => {
-    const fetchWatchlist = async () => {
+    if (!selectedAsset) {
+      return;
+    }
+    let cancelled = false;
+    const fetchSeries = async () => {
+      setAssetSeries(null);
+      setOptimization(null);
+      setOptimizationMessage(null);
+      setSeriesLoading(true);
       try {
-        const res = await fetch('/api/watchlist');
+        const res = await fetch(
+          `/api/assets/${encodeURIComponent(selectedAsset.symbol)}?type=${selectedAsset.type}&timeframe=${seriesTimeframe}` +
+            (selectedAsset.universe ? `&universe=${encodeURIComponent(selectedAsset.universe)}` : "")
+        );
         if (res.ok) {
           const data = await res.json();
-          setWatchlist(data || []);
+          if (!cancelled) {
+            setAssetSeries(data);
+          }
+        } else {
+          console.error('Failed to fetch asset series');
+        }
+      } catch (error) {
+        console.error('Error fetching asset series:', error);
+      } finally {
+        if (!cancelled) {
+          setSeriesLoading(false);
+        }
+      }
+    };
+    fetchSeries();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedAsset, seriesTimeframe, settingsVersion]);
+
+  // Backtest the selected asset's Supertrend on the chart interval
+  useEffect(() => {
+    if (!selectedAsset) {
+      return;
+    }
+    const commission = Number(commissionPct) / 100;
+    const slippage = Number(slippagePct) / 100;
+    if (commissionPct === "" || slippagePct === "" || Number.isNaN(commission) || Number.isNaN(slippage)) {
+      return;
+    }
+    let cancelled = false;
+    const runBacktest = async () => {
+      setBacktestError(null);
+      try {
+        const params = new URLSearchParams({
+          symbol: selectedAsset.symbol,
+          type: selectedAsset.type,
+          timeframe: seriesTimeframe,
+          mode: backtestMode,
+          commission: String(commission),
+          slippage: String(slippage),
+        });
+        if (selectedAsset.universe) {
+          params.set("universe", selectedAsset.universe);
+        }
+        const res = await fetch(`/api/backtest?${params}`);
+        const data = await res.json();
+        if (cancelled) {
+          return;
+        }
+        if (res.ok) {
+          setBacktest(data);
         } else {
-          console.error('Failed to fetch watchlist');
+          setBacktest(null);
+          setBacktestError(data.message || 'Backtest failed');
         }
       } catch (error) {
-        console.error('Error fetching watchlist:', error);
+        console.error('Error running backtest:', error);
+        if (!cancelled) {
+          setBacktest(null);
+          setBacktestError('Backtest failed');
+        }
       }
     };
-    fetchWatchlist();
+    runBacktest();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedAsset, seriesTimeframe, backtestMode, commissionPct, slippagePct, settingsVersion]);
+
+  // Unread alert count for the header, refreshed every minute
+  useEffect(() => {
+    const fetchUnread = async () => {
+      try {
+        const res = await fetch('/api/alerts?unread=1');
+        if (res.ok) {
+          const data = await res.json();
+          setUnreadAlerts(data.unread);
+        }
+      } catch (error) {
+        console.error('Error fetching alerts:', error);
+      }
+    };
+    fetchUnread();
+    const interval = setInterval(fetchUnread, 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Fetch watchlists
+  useEffect(() => {
+    const fetchWatchlists = async () => {
+      try {
+        const res = await fetch('/api/watchlists');
+        if (res.ok) {
+          const data = await res.json();
+          setWatchlists(data || []);
+        } else {
+          console.error('Failed to fetch watchlists');
+        }
+      } catch (error) {
+        console.error('Error fetching watchlists:', error);
+      }
+    };
+    fetchWatchlists();
   }, []);
 
+  // type:symbol of everything on the user's lists, for highlighting rows
+  const watchedSymbols = useMemo(
+    () => new Set(watchlists.flatMap((list) => list.items.map((item) => `${item.type}:${item.symbol}`))),
+    [watchlists]
+  );
+
   const filteredAssets = useMemo(() => {
     let filtered = allAssets;
 
@@ -176,28 +491,124 @@ export default function Home() {
       );
     }
 
+    if (alignmentFilter !== "any") {
+      filtered = filtered.filter((asset) => asset.confluence?.aligned === alignmentFilter);
+    }
+
+    if (alignmentSort !== "none") {
+      const direction = alignmentSort === "desc" ? -1 : 1;
+      filtered = [...filtered].sort((a, b) => direction * ((a.confluence?.score ?? 0) - (b.confluence?.score ?? 0)));
+    }
+
     return filtered;
-  }, [allAssets, assetType, searchTerm]);
+  }, [allAssets, assetType, searchTerm, alignmentFilter, alignmentSort]);
+
+  const showColumn = (key: string) => visibleColumns.includes(key);
+
+  // Restore a saved or shared scan's universe, filter, sort and columns
+  const applyScanView = (view: ScanView) => {
+    setUniverse(view.universe);
+    const option = universes.find((u) => u.slug === view.universe);
+    setAssetType(option ? option.assetType : "all");
+    setFilterInput(view.filter);
+    setScreenerFilter(view.filter);
+    setFilterError(null);
+    setAlignmentSort(view.sort);
+    setVisibleColumns(view.columns);
+  };
+
+  // Strongest first, then weakest first, then scan order
+  const toggleAlignmentSort = () => {
+    setAlignmentSort((current) => (current === "none" ? "desc" : current === "desc" ? "asc" : "none"));
+  };
 
-  const toggleWatchlist = async (assetSymbol: string) => {
-    const isWatched = watchlist.includes(assetSymbol);
-    const newWatchlist = isWatched
-      ? watchlist.filter((symbol) => symbol !== assetSymbol)
-      : [...watchlist, assetSymbol];
+  const getAlignmentDisplay = (confluence: Asset["confluence"]) => {
+    if (!confluence) {
+      return { colorScheme: "gray", label: "—", detail: "" };
+    }
+    const { score, bullish, bearish, aligned } = confluence;
+    return {
+      colorScheme: score >= 50 ? "green" : score <= -50 ? "red" : "gray",
+      label: `${score > 0 ? "+" : ""}${score}`,
+      detail: aligned ? `All ${aligned}` : `${bullish}▲ ${bearish}▼`,
+    };
+  };
 
-    // Optimistic update
-    setWatchlist(newWatchlist);
+  // Add the symbol to the list, or take it off if it's already there
+  const toggleWatchlist = async (watchlistId: number, assetSymbol: string, assetType: Asset["type"]) => {
+    const list = watchlists.find((l) => l.id === watchlistId);
+    const isWatched = !!list?.items.some((item) => item.symbol === assetSymbol && item.type === assetType);
 
     try {
-      await fetch('/api/watchlist', {
+      const res = await fetch(`/api/watchlists/${watchlistId}/items`, {
         method: isWatched ? 'DELETE' : 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ symbol: assetSymbol }),
+        body: JSON.stringify({ symbol: assetSymbol, type: assetType }),
       });
+      if (res.ok) {
+        setWatchlists(await res.json());
+      }
     } catch (error) {
       console.error("Failed to update watchlist", error);
-      // Revert on error
-      setWatchlist(watchlist);
+    }
+  };
+
+  // Walk-forward sweep of Supertrend settings for the asset on the chart interval
+  const runOptimization = async () => {
+    if (!selectedAsset) {
+      return;
+    }
+    setOptimizing(true);
+    setOptimization(null);
+    setOptimizationMessage(null);
+    try {
+      const params = new URLSearchParams({
+        symbol: selectedAsset.symbol,
+        type: selectedAsset.type,
+        timeframe: seriesTimeframe,
+        mode: backtestMode,
+        commission: String(Number(commissionPct) / 100),
+        slippage: String(Number(slippagePct) / 100),
+      });
+      if (selectedAsset.universe) {
+        params.set("universe", selectedAsset.universe);
+      }
+      const res = await fetch(`/api/optimize?${params}`);
+      const data = await res.json();
+      if (res.ok) {
+        setOptimization(data);
+        if (!data.winner) {
+          setOptimizationMessage('No setting made enough trades to score');
+        }
+      } else {
+        setOptimizationMessage(data.message || 'Optimisation failed');
+      }
+    } catch (error) {
+      console.error('Error running optimisation:', error);
+      setOptimizationMessage('Optimisation failed');
+    } finally {
+      setOptimizing(false);
+    }
+  };
+
+  const saveOptimizedDefault = async () => {
+    if (!optimization?.winner) {
+      return;
+    }
+    try {
+      const res = await fetch('/api/optimize', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ timeframe: seriesTimeframe, ...optimization.winner.config }),
+      });
+      const data = await res.json();
+      setOptimizationMessage(res.ok ? `Saved as your ${seriesTimeframe} default` : data.message || 'Failed to save default');
+      if (res.ok) {
+        setSettingsVersion((version) => version + 1);
+      }
+    } catch (error) {
+      console.error('Error saving default:', error);
+      setOptimizationMessage('Failed to save default');
     }
   };
 
@@ -228,12 +639,13 @@ export default function Home() {
         icon: "→",
         label: "No Data",
         colorScheme: "gray",
-        confidence: 0,
+        strength: null,
         date: "N/A"
       };
     }
 
-    const { trend, confidence, startDate } = trendData;
+    const { trend, strength, startDate, bars } = trendData;
+    const date = startDate ? `since ${formatTrendStart(startDate)} (${bars} bars)` : "N/A";
     
     switch (trend) {
       case "uptrend":
@@ -241,31 +653,31 @@ export default function Home() {
           icon: "↗",
           label: "Uptrend",
           colorScheme: "green",
-          confidence,
-          date: startDate
+          strength,
+          date
         };
       case "downtrend":
         return {
           icon: "↘",
           label: "Downtrend",
           colorScheme: "red",
-          confidence,
-          date: startDate
+          strength,
+          date
         };
       case "sideways":
         return {
           icon: "→",
           label: "Sideways",
           colorScheme: "gray",
-          confidence,
-          date: startDate
+          strength,
+          date
         };
       default:
         return {
           icon: "→",
           label: "Unknown",
           colorScheme: "gray",
-          confidence: 0,
+          strength: null,
           date: "N/A"
         };
     }
@@ -398,6 +810,55 @@ export default function Home() {
 
             {/* Center Controls */}
             <HStack spacing={4}>
+              {/* Asset Type Toggle */}
+              <HStack spacing={1} bg={toggleBg} p={1} borderRadius="lg">
+                {(["all", "stock", "crypto"] as const).map((type) => (
+                  <Button
+                    key={type}
+                    size="sm"
+                    variant={assetType === type ? "solid" : "ghost"}
+                    colorScheme={assetType === type ? "blue" : "gray"}
+                    onClick={() => setAssetType(type)}
+                  >
+                    {type === "all" ? "All" : type === "stock" ? "Stocks" : "Crypto"}
+                  </Button>
+                ))}
+              </HStack>
+
+              {/* Saved Scans */}
+              {!sharedToken && (
+                <SavedScans
+                  current={{ universe, filter: screenerFilter, sort: alignmentSort, columns: visibleColumns }}
+                  onApply={applyScanView}
+                  bg={cardBg}
+                  borderColor={borderColor}
+                />
+              )}
+
+              {/* Universe Selector */}
+              <Select
+                isDisabled={Boolean(sharedToken)}
+                w="48"
+                size="sm"
+                value={universe}
+                onChange={(e) => {
+                  setUniverse(e.target.value);
+                  // Show the selected universe's assets rather than an empty table
+                  const option = universes.find((u) => u.slug === e.target.value);
+                  setAssetType(option ? option.assetType : "all");
+                }}
+                bg={cardBg}
+                borderColor={borderColor}
+                aria-label="Scan universe"
+              >
+                <option value="">Default universes</option>
+                {universes.map((option) => (
+                  <option key={option.slug} value={option.slug}>
+                    {option.name}
+                  </option>
+                ))}
+              </Select>
+
               {/* Search Bar */}
               <InputGroup w="64">
                 <InputLeftElement pointerEvents="none">
@@ -427,6 +888,27 @@ export default function Home() {
                 variant="ghost"
                 size="md"
               />
+              <Button onClick={watchlistsDisclosure.onOpen} variant="ghost" size="md">
+                Watchlists
+              </Button>
+              <Button
+                onClick={() => {
+                  setAlertDraft(null);
+                  alertsDisclosure.onOpen();
+                }}
+                variant="ghost"
+                size="md"
+              >
+                Alerts
+                {unreadAlerts > 0 && (
+                  <Badge ml={2} colorScheme="red" borderRadius="full">
+                    {unreadAlerts}
+                  </Badge>
+                )}
+              </Button>
+              <Button onClick={settingsDisclosure.onOpen} variant="ghost" size="md">
+                Settings
+              </Button>
               <Button onClick={handleLogout} variant="ghost" size="md">
                 Logout
               </Button>
@@ -437,6 +919,111 @@ export default function Home() {
 
       {/* Main Content */}
       <Container maxW="7xl" px={4} py={6}>
+        {sharedToken && (
+          <Alert status="info" borderRadius="md" mb={4}>
+            <AlertIcon />
+            <AlertDescription fontSize="sm">
+              {sharedScanName ? `Viewing the shared scan "${sharedScanName}".` : "Viewing a shared scan."} It is read-only.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Screener Query Bar */}
+        <Box mb={4}>
+          <HStack spacing={2}>
+            <Input
+              size="sm"
+              fontFamily="mono"
+              placeholder="Screener, e.g. st.1D = up AND rsi.4H < 30 AND price > 50 AND trend.1W = uptrend"
+              value={filterInput}
+              onChange={(e) => setFilterInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") setScreenerFilter(filterInput.trim());
+              }}
+              isInvalid={filterError !== null}
+              isReadOnly={Boolean(sharedToken)}
+              bg={cardBg}
+              borderColor={borderColor}
+              aria-label="Screener filter"
+            />
+            <Button size="sm" colorScheme="blue" onClick={() => setScreenerFilter(filterInput.trim())} isDisabled={Boolean(sharedToken)}>
+              Apply
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              isDisabled={Boolean(sharedToken) || (!filterInput && !screenerFilter)}
+              onClick={() => {
+                setFilterInput("");
+                setScreenerFilter("");
+                setFilterError(null);
+              }}
+            >
+              Clear
+            </Button>
+          </HStack>
+          {filterError && (
+            <Box mt={1} fontSize="sm">
+              <Text color="red.500">{filterError.message}</Text>
+              <Text fontFamily="mono" color={mutedTextColor} whiteSpace="pre-wrap">
+                {screenerFilter.slice(0, filterError.position)}
+                <Text as="span" color="red.500" textDecoration="underline wavy">
+                  {screenerFilter.slice(filterError.position) || " "}
+                </Text>
+              </Text>
+            </Box>
+          )}
+        </Box>
+
+        <Flex align="center" justify="space-between" mb={3} gap={4}>
+          {/* Snapshot Age */}
+          <Text fontSize="sm" color={mutedTextColor}>
+            {scannedAt ? `Last scanned ${formatScanAge(scannedAt)}` : ""}
+            {settingsPending ? " · your indicator settings apply from the next scan" : ""}
+            {pendingUniverses.length > 0 ? ` · waiting for the first scan of ${pendingUniverses.join(", ")}` : ""}
+          </Text>
+
+          <HStack spacing={2}>
+            {/* Alignment Filter */}
+            <Select
+              size="sm"
+              w="56"
+              value={alignmentFilter}
+              onChange={(e) => setAlignmentFilter(e.target.value as "any" | "bullish" | "bearish")}
+              bg={cardBg}
+              borderColor={borderColor}
+              aria-label="Timeframe alignment"
+            >
+              <option value="any">Any alignment</option>
+              <option value="bullish">All timeframes bullish</option>
+              <option value="bearish">All timeframes bearish</option>
+            </Select>
+
+            {/* Column Picker */}
+            <Menu closeOnSelect={false}>
+              <MenuButton as={Button} size="sm" variant="outline" flexShrink={0}>
+                Columns
+              </MenuButton>
+              <MenuList maxH="320px" overflowY="auto" fontSize="sm">
+                <MenuOptionGroup
+                  type="checkbox"
+                  value={visibleColumns}
+                  onChange={(value) => {
+                    const selected = Array.isArray(value) ? value : [value];
+                    setVisibleColumns(COLUMNS.map((column) => column.key).filter((key) => selected.includes(key)));
+                  }}
+                >
+                  {COLUMNS.map((column) => (
+                    <MenuItemOption key={column.key} value={column.key}>
+                      {column.label}
+                    </MenuItemOption>
+                  ))}
+                </MenuOptionGroup>
+              </MenuList>
+            </Menu>
+          </HStack>
+        </Flex>
+
         {/* Desktop Table */}
         <Box display={{ base: "none", md: "block" }}>
           <Box
@@ -448,44 +1035,38 @@ export default function Home() {
             shadow="sm"
           >
             <Box overflowX="auto" maxW="100%">
-              <Table variant="simple" minW="1800px">
+              <Table variant="simple" minW={`${400 + visibleColumns.length * 100}px`}>
                 <Thead bg={tableHeaderBg}>
                   <Tr>
                     <Th color={mutedTextColor}>Asset</Th>
-                    <Th color={mutedTextColor} isNumeric>Price</Th>
-                    <Th color={mutedTextColor} textAlign="center">45M Trend</Th>
-                    <Th color={mutedTextColor} textAlign="center">45M ST</Th>
-                    <Th color={mutedTextColor} textAlign="center">2H Trend</Th>
-                    <Th color={mutedTextColor} textAlign="center">2H ST</Th>
-                    <Th color={mutedTextColor} textAlign="center">4H Trend</Th>
-                    <Th color={mutedTextColor} textAlign="center">4H ST</Th>
-                    <Th color={mutedTextColor} textAlign="center">1D Trend</Th>
-                    <Th color={mutedTextColor} textAlign="center">1D ST</Th>
-                    <Th color={mutedTextColor} textAlign="center">3D Trend</Th>
-                    <Th color={mutedTextColor} textAlign="center">3D ST</Th>
-                    <Th color={mutedTextColor} textAlign="center">1W Trend</Th>
-                    <Th color={mutedTextColor} textAlign="center">1W ST</Th>
-                    <Th color={mutedTextColor} textAlign="center">Watchlist</Th>
+                    {showColumn("price") && <Th color={mutedTextColor} isNumeric>Price</Th>}
+                    {showColumn("alignment") && (
+                      <Th
+                        color={mutedTextColor}
+                        textAlign="center"
+                        cursor="pointer"
+                        userSelect="none"
+                        onClick={toggleAlignmentSort}
+                        title="Agreement of trend and Supertrend across timeframes, -100 to +100"
+                      >
+                        Alignment {alignmentSort === "desc" ? "▼" : alignmentSort === "asc" ? "▲" : ""}
+                      </Th>
+                    )}
+                    {TIMEFRAMES.map((tf) => (
+                      <React.Fragment key={tf}>
+                        {showColumn(`trend.${tf}`) && <Th color={mutedTextColor} textAlign="center">{tf} Trend</Th>}
+                        {showColumn(`st.${tf}`) && <Th color={mutedTextColor} textAlign="center">{tf} ST</Th>}
+                      </React.Fragment>
+                    ))}
+                    {showColumn("watchlist") && <Th color={mutedTextColor} textAlign="center">Watchlist</Th>}
                   </Tr>
                 </Thead>
               <Tbody>
                 {filteredAssets.map((asset) => {
-                  const trend45M = getTrendDisplay(asset["45M"]);
-                  const trend2H = getTrendDisplay(asset["2H"]);
-                  const trend4H = getTrendDisplay(asset["4H"]);
-                  const trend1D = getTrendDisplay(asset["1D"]);
-                  const trend3D = getTrendDisplay(asset["3D"]);
-                  const trend1W = getTrendDisplay(asset["1W"]);
-                  
-                  const supertrend45M = getSupertrendDisplay(asset.supertrend?.["45M"]);
-                  const supertrend2H = getSupertrendDisplay(asset.supertrend?.["2H"]);
-                  const supertrend4H = getSupertrendDisplay(asset.supertrend?.["4H"]);
-                  const supertrend1D = getSupertrendDisplay(asset.supertrend?.["1D"]);
-                  const supertrend3D = getSupertrendDisplay(asset.supertrend?.["3D"]);
-                  const supertrend1W = getSupertrendDisplay(asset.supertrend?.["1W"]);
+                  const alignment = getAlignmentDisplay(asset.confluence);
 
                   return (
-                    <Tr key={asset.symbol} _hover={{ bg: hoverBg, cursor: 'pointer' }} onClick={() => handleRowClick(asset)} bg={watchlist.includes(asset.symbol) ? watchlistBg : undefined}>
+                    <Tr key={asset.symbol} _hover={{ bg: hoverBg, cursor: 'pointer' }} onClick={() => handleRowClick(asset)} bg={watchedSymbols.has(`${asset.type}:${asset.symbol}`) ? watchlistBg : undefined}>
                       <Td>
                         <HStack>
                           <Avatar
@@ -509,220 +1090,82 @@ export default function Home() {
                                 {asset.type.toUpperCase()}
                               </Badge>
                             </HStack>
-                          </VStack>
-                        </HStack>
-                      </Td>
-                      <Td isNumeric>
-                        <Text fontWeight="semibold" color={textColor}>
-                          {asset.price ? `$${asset.price.toLocaleString()}` : 'N/A'}
-                        </Text>
-                      </Td>
-                      
-                      {/* 45M Trend */}
-                      <Td textAlign="center">
-                        <Badge colorScheme={trend45M.colorScheme} variant="subtle" px={2} py={1} borderRadius="md">
-                          <VStack spacing={0}>
-                            <HStack spacing={1}>
-                              <Text fontSize="sm">{trend45M.icon}</Text>
-                              <Text fontSize="xs" fontWeight="medium">{trend45M.label}</Text>
-                            </HStack>
-                            <Text fontSize="xs" opacity={0.8}>{trend45M.confidence}%</Text>
-                          </VStack>
-                        </Badge>
-                      </Td>
-                      
-                      {/* 45M Supertrend */}
-                      <Td textAlign="center">
-                        <Badge
-                          colorScheme={supertrend45M.colorScheme}
-                          variant={supertrend45M.signal === 'buy' || supertrend45M.signal === 'sell' ? 'solid' : 'subtle'}
-                          px={2} py={1} borderRadius="md" fontSize="xs"
-                        >
-                          <VStack spacing={0}>
-                            <HStack spacing={1}>
-                              <Text fontSize="sm">{supertrend45M.icon}</Text>
-                              <Text fontSize="xs" fontWeight="bold">{supertrend45M.label}</Text>
-                            </HStack>
-                            {supertrend45M.value > 0 && (
-                              <Text fontSize="xs" opacity={0.8}>${supertrend45M.value.toLocaleString()}</Text>
-                            )}
-                          </VStack>
-                        </Badge>
-                      </Td>
-                      
-                      {/* 2H Trend */}
-                      <Td textAlign="center">
-                        <Badge colorScheme={trend2H.colorScheme} variant="subtle" px={2} py={1} borderRadius="md">
-                          <VStack spacing={0}>
-                            <HStack spacing={1}>
-                              <Text fontSize="sm">{trend2H.icon}</Text>
-                              <Text fontSize="xs" fontWeight="medium">{trend2H.label}</Text>
-                            </HStack>
-                            <Text fontSize="xs" opacity={0.8}>{trend2H.confidence}%</Text>
-                          </VStack>
-                        </Badge>
-                      </Td>
-                      
-                      {/* 2H Supertrend */}
-                      <Td textAlign="center">
-                        <Badge
-                          colorScheme={supertrend2H.colorScheme}
-                          variant={supertrend2H.signal === 'buy' || supertrend2H.signal === 'sell' ? 'solid' : 'subtle'}
-                          px={2} py={1} borderRadius="md" fontSize="xs"
-                        >
-                          <VStack spacing={0}>
-                            <HStack spacing={1}>
-                              <Text fontSize="sm">{supertrend2H.icon}</Text>
-                              <Text fontSize="xs" fontWeight="bold">{supertrend2H.label}</Text>
-                            </HStack>
-                            {supertrend2H.value > 0 && (
-                              <Text fontSize="xs" opacity={0.8}>${supertrend2H.value.toLocaleString()}</Text>
-                            )}
-                          </VStack>
-                        </Badge>
-                      </Td>
-                      
-                      {/* 4H Trend */}
-                      <Td textAlign="center">
-                        <Badge colorScheme={trend4H.colorScheme} variant="subtle" px={2} py={1} borderRadius="md">
-                          <VStack spacing={0}>
-                            <HStack spacing={1}>
-                              <Text fontSize="sm">{trend4H.icon}</Text>
-                              <Text fontSize="xs" fontWeight="medium">{trend4H.label}</Text>
-                            </HStack>
-                            <Text fontSize="xs" opacity={0.8}>{trend4H.confidence}%</Text>
-                          </VStack>
-                        </Badge>
-                      </Td>
-                      
-                      {/* 4H Supertrend */}
-                      <Td textAlign="center">
-                        <Badge
-                          colorScheme={supertrend4H.colorScheme}
-                          variant={supertrend4H.signal === 'buy' || supertrend4H.signal === 'sell' ? 'solid' : 'subtle'}
-                          px={2} py={1} borderRadius="md" fontSize="xs"
-                        >
-                          <VStack spacing={0}>
-                            <HStack spacing={1}>
-                              <Text fontSize="sm">{supertrend4H.icon}</Text>
-                              <Text fontSize="xs" fontWeight="bold">{supertrend4H.label}</Text>
-                            </HStack>
-                            {supertrend4H.value > 0 && (
-                              <Text fontSize="xs" opacity={0.8}>${supertrend4H.value.toLocaleString()}</Text>
-                            )}
-                          </VStack>
-                        </Badge>
-                      </Td>
-                      
-                      {/* 1D Trend */}
-                      <Td textAlign="center">
-                        <Badge colorScheme={trend1D.colorScheme} variant="subtle" px={2} py={1} borderRadius="md">
-                          <VStack spacing={0}>
-                            <HStack spacing={1}>
-                              <Text fontSize="sm">{trend1D.icon}</Text>
-                              <Text fontSize="xs" fontWeight="medium">{trend1D.label}</Text>
-                            </HStack>
-                            <Text fontSize="xs" opacity={0.8}>{trend1D.confidence}%</Text>
-                          </VStack>
-                        </Badge>
-                      </Td>
-                      
-                      {/* 1D Supertrend */}
-                      <Td textAlign="center">
-                        <Badge
-                          colorScheme={supertrend1D.colorScheme}
-                          variant={supertrend1D.signal === 'buy' || supertrend1D.signal === 'sell' ? 'solid' : 'subtle'}
-                          px={2} py={1} borderRadius="md" fontSize="xs"
-                        >
-                          <VStack spacing={0}>
-                            <HStack spacing={1}>
-                              <Text fontSize="sm">{supertrend1D.icon}</Text>
-                              <Text fontSize="xs" fontWeight="bold">{supertrend1D.label}</Text>
-                            </HStack>
-                            {supertrend1D.value > 0 && (
-                              <Text fontSize="xs" opacity={0.8}>${supertrend1D.value.toLocaleString()}</Text>
+                            {(asset.exchange || asset.sector) && (
+                              <Text fontSize="xs" color={mutedTextColor}>
+                                {[asset.exchange, asset.sector].filter(Boolean).join(' · ')}
+                              </Text>
                             )}
                           </VStack>
-                        </Badge>
-                      </Td>
-                      
-                      {/* 3D Trend */}
-                      <Td textAlign="center">
-                        <Badge colorScheme={trend3D.colorScheme} variant="subtle" px={2} py={1} borderRadius="md">
-                          <VStack spacing={0}>
-                            <HStack spacing={1}>
-                              <Text fontSize="sm">{trend3D.icon}</Text>
-                              <Text fontSize="xs" fontWeight="medium">{trend3D.label}</Text>
-                            </HStack>
-                            <Text fontSize="xs" opacity={0.8}>{trend3D.confidence}%</Text>
-                          </VStack>
-                        </Badge>
+                        </HStack>
                       </Td>
-                      
-                      {/* 3D Supertrend */}
-                      <Td textAlign="center">
-                        <Badge
-                          colorScheme={supertrend3D.colorScheme}
-                          variant={supertrend3D.signal === 'buy' || supertrend3D.signal === 'sell' ? 'solid' : 'subtle'}
-                          px={2} py={1} borderRadius="md" fontSize="xs"
-                        >
-                          <VStack spacing={0}>
-                            <HStack spacing={1}>
-                              <Text fontSize="sm">{supertrend3D.icon}</Text>
-                              <Text fontSize="xs" fontWeight="bold">{supertrend3D.label}</Text>
-                            </HStack>
-                            {supertrend3D.value > 0 && (
-                              <Text fontSize="xs" opacity={0.8}>${supertrend3D.value.toLocaleString()}</Text>
+                      {showColumn("price") && (
+                        <Td isNumeric>
+                          <Text fontWeight="semibold" color={textColor}>
+                            {asset.price ? `$${asset.price.toLocaleString()}` : 'N/A'}
+                          </Text>
+                        </Td>
+                      )}
+
+                      {/* Alignment */}
+                      {showColumn("alignment") && (
+                        <Td textAlign="center">
+                          <Badge colorScheme={alignment.colorScheme} variant="subtle" px={2} py={1} borderRadius="md">
+                            <VStack spacing={0}>
+                              <Text fontSize="sm" fontWeight="bold">{alignment.label}</Text>
+                              <Text fontSize="xs" opacity={0.8}>{alignment.detail}</Text>
+                            </VStack>
+                          </Badge>
+                        </Td>
+                      )}
+
+                      {/* Trend and Supertrend per timeframe */}
+                      {TIMEFRAMES.map((tf) => {
+                        const trend = getTrendDisplay(asset[tf]);
+                        const supertrend = getSupertrendDisplay(asset.supertrend?.[tf]);
+                        return (
+                          <React.Fragment key={tf}>
+                            {showColumn(`trend.${tf}`) && (
+                              <Td textAlign="center">
+                                <Badge colorScheme={trend.colorScheme} variant="subtle" px={2} py={1} borderRadius="md">
+                                  <VStack spacing={0}>
+                                    <HStack spacing={1}>
+                                      <Text fontSize="sm">{trend.icon}</Text>
+                                      <Text fontSize="xs" fontWeight="medium">{trend.label}</Text>
+                                    </HStack>
+                                    <Text fontSize="xs" opacity={0.8}>ADX {trend.strength ?? "—"}</Text>
+                                    <Text fontSize="xs" opacity={0.7}>{trend.date}</Text>
+                                  </VStack>
+                                </Badge>
+                              </Td>
                             )}
-                          </VStack>
-                        </Badge>
-                      </Td>
-                      
-                      {/* 1W Trend */}
-                      <Td textAlign="center">
-                        <Badge colorScheme={trend1W.colorScheme} variant="subtle" px={2} py={1} borderRadius="md">
-                          <VStack spacing={0}>
-                            <HStack spacing={1}>
-                              <Text fontSize="sm">{trend1W.icon}</Text>
-                              <Text fontSize="xs" fontWeight="medium">{trend1W.label}</Text>
-                            </HStack>
-                            <Text fontSize="xs" opacity={0.8}>{trend1W.confidence}%</Text>
-                          </VStack>
-                        </Badge>
-                      </Td>
-                      
-                      {/* 1W Supertrend */}
-                      <Td textAlign="center">
-                        <Badge
-                          colorScheme={supertrend1W.colorScheme}
-                          variant={supertrend1W.signal === 'buy' || supertrend1W.signal === 'sell' ? 'solid' : 'subtle'}
-                          px={2} py={1} borderRadius="md" fontSize="xs"
-                        >
-                          <VStack spacing={0}>
-                            <HStack spacing={1}>
-                              <Text fontSize="sm">{supertrend1W.icon}</Text>
-                              <Text fontSize="xs" fontWeight="bold">{supertrend1W.label}</Text>
-                            </HStack>
-                            {supertrend1W.value > 0 && (
-                              <Text fontSize="xs" opacity={0.8}>${supertrend1W.value.toLocaleString()}</Text>
+                            {showColumn(`st.${tf}`) && (
+                              <Td textAlign="center">
+                                <Badge
+                                  colorScheme={supertrend.colorScheme}
+                                  variant={supertrend.signal === 'buy' || supertrend.signal === 'sell' ? 'solid' : 'subtle'}
+                                  px={2} py={1} borderRadius="md" fontSize="xs"
+                                >
+                                  <VStack spacing={0}>
+                                    <HStack spacing={1}>
+                                      <Text fontSize="sm">{supertrend.icon}</Text>
+                                      <Text fontSize="xs" fontWeight="bold">{supertrend.label}</Text>
+                                    </HStack>
+                                    {supertrend.value > 0 && (
+                                      <Text fontSize="xs" opacity={0.8}>${supertrend.value.toLocaleString()}</Text>
+                                    )}
+                                  </VStack>
+                                </Badge>
+                              </Td>
                             )}
-                          </VStack>
-                        </Badge>
-                      </Td>
-                      
-                      <Td textAlign="center">
-                        <Button
-                          size="sm"
-                          variant={watchlist.includes(asset.symbol) ? "solid" : "outline"}
-                          colorScheme={watchlist.includes(asset.symbol) ? "yellow" : "gray"}
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            toggleWatchlist(asset.symbol);
-                          }}
-                        >
-                          {watchlist.includes(asset.symbol) ? '★ In Watchlist' : '☆ Add to Watchlist'}
-                        </Button>
-                      </Td>
+                          </React.Fragment>
+                        );
+                      })}
+
+                      {showColumn("watchlist") && (
+                        <Td textAlign="center">
+                          <WatchlistStar symbol={asset.symbol} type={asset.type} watchlists={watchlists} onToggle={toggleWatchlist} />
+                        </Td>
+                      )}
                     </Tr>
                   );
                 })}
@@ -736,6 +1179,7 @@ export default function Home() {
         <VStack spacing={4} display={{ base: "flex", md: "none" }}>
           {filteredAssets.map((asset) => {
             const supertrend1D = getSupertrendDisplay(asset.supertrend?.["1D"]);
+            const alignment = getAlignmentDisplay(asset.confluence);
             
             return (
               <Box
@@ -770,20 +1214,20 @@ export default function Home() {
                     <Text fontWeight="semibold" color={textColor}>
                       {asset.price ? `$${asset.price.toLocaleString()}` : 'N/A'}
                     </Text>
-                    <Button
-                      size="xs"
-                      variant={watchlist.includes(asset.symbol) ? "solid" : "outline"}
-                      colorScheme={watchlist.includes(asset.symbol) ? "yellow" : "gray"}
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        toggleWatchlist(asset.symbol);
-                      }}
-                    >
-                      {watchlist.includes(asset.symbol) ? '★' : '☆'}
-                    </Button>
+                    <WatchlistStar symbol={asset.symbol} type={asset.type} watchlists={watchlists} onToggle={toggleWatchlist} compact />
                   </VStack>
                 </Flex>
                 
+                {/* Alignment */}
+                <HStack justify="space-between" mb={2}>
+                  <Text fontSize="xs" fontWeight="medium" color={mutedTextColor}>
+                    Alignment
+                  </Text>
+                  <Badge colorScheme={alignment.colorScheme} variant="subtle" fontSize="xs">
+                    {alignment.label} {alignment.detail && `· ${alignment.detail}`}
+                  </Badge>
+                </HStack>
+
                 {/* Supertrend Indicator */}
                 <Box mb={3} p={2} bg={tableHeaderBg} borderRadius="md">
                   <HStack justify="space-between">
@@ -827,7 +1271,7 @@ export default function Home() {
                           {trend.icon}
                         </Badge>
                         <Text fontSize="xs" color={mutedTextColor}>
-                          {trend.confidence}%
+                          ADX {trend.strength ?? "—"}
                         </Text>
                       </VStack>
                     </GridItem>
@@ -853,7 +1297,7 @@ export default function Home() {
                           {trend.icon}
                         </Badge>
                         <Text fontSize="xs" color={mutedTextColor}>
-                          {trend.confidence}%
+                          ADX {trend.strength ?? "—"}
                         </Text>
                       </VStack>
                     </GridItem>
@@ -906,31 +1350,179 @@ export default function Home() {
           <ModalHeader>{selectedAsset?.name} ({selectedAsset?.symbol})</ModalHeader>
           <ModalCloseButton />
           <ModalBody>
-            {selectedAsset && (
+            {/* Daily indicator readings */}
+            {selectedAsset?.indicators?.["1D"] && (
+              <HStack spacing={6} mb={4} fontSize="sm" color={mutedTextColor} flexWrap="wrap">
+                {[
+                  ["RSI 14", selectedAsset.indicators["1D"].rsi],
+                  ["MACD hist", selectedAsset.indicators["1D"].macd?.histogram ?? null],
+                  ["SMA 20", selectedAsset.indicators["1D"].sma20],
+                  ["SMA 50", selectedAsset.indicators["1D"].sma50],
+                  ["EMA 20", selectedAsset.indicators["1D"].ema20],
+                  ["BB upper", selectedAsset.indicators["1D"].bollinger?.upper ?? null],
+                  ["BB lower", selectedAsset.indicators["1D"].bollinger?.lower ?? null],
+                ].map(([label, value]) => (
+                  <Text key={label}>
+                    {label}:{" "}
+                    <Text as="span" fontWeight="semibold" color={textColor}>
+                      {value === null ? "—" : (value as number).toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                    </Text>
+                  </Text>
+                ))}
+              </HStack>
+            )}
+            {/* Chart Interval */}
+            <HStack spacing={1} mb={4}>
+              {TIMEFRAMES.map((tf) => (
+                <Button
+                  key={tf}
+                  size="xs"
+                  variant={seriesTimeframe === tf ? "solid" : "ghost"}
+                  colorScheme={seriesTimeframe === tf ? "blue" : "gray"}
+                  onClick={() => setSeriesTimeframe(tf)}
+                >
+                  {tf}
+                </Button>
+              ))}
+            </HStack>
+            {selectedAsset && seriesLoading && !assetSeries && seriesTimeframe !== "1D" ? (
+              <Center h="500px">
+                <Spinner size="lg" color="blue.500" thickness="3px" />
+              </Center>
+            ) : selectedAsset && (
               <Chart
-                data={selectedAsset.ohlc || []}
-                supertrend={
-                  Object.entries(selectedAsset.supertrend || {})
-                    .map(([key, value]) => {
-                      if (!value) return null;
-                      // Find the corresponding OHLC entry to get the correct timestamp
-                      const ohlcEntry = selectedAsset.ohlc?.find(d => new Date(d.time).getTime() >= new Date().getTime());
-                      return {
-                        time: ohlcEntry ? ohlcEntry.time : new Date().toISOString(),
-                        value: value.value,
-                        color: value.direction === 'up' ? '#26a69a' : '#ef5350',
-                      };
-                    })
-                    .filter(Boolean) as any
-                }
-                indicatorLogic="Buy when the price crosses above the green line. Sell when the price crosses below the red line."
+                // A new interval needs a fresh chart; scan snapshot candles stand in until the 1D series arrives
+                key={`${selectedAsset.symbol}-${seriesTimeframe}`}
+                data={assetSeries?.candles ?? (seriesTimeframe === "1D" ? selectedAsset.ohlc || [] : [])}
+                supertrend={assetSeries?.supertrend ?? []}
+                indicatorLogic="Buy when the price crosses above the green line. Sell when the price crosses below the red line. Arrows mark each flip."
                 timeframe={chartTimeframe}
                 setTimeframe={setChartTimeframe}
               />
             )}
+            {/* Logged Supertrend and trend changes on the chart interval */}
+            {selectedAsset && (
+              <Box mt={6}>
+                <Heading size="sm" color={textColor} mb={3}>Signal history ({seriesTimeframe})</Heading>
+                <SignalTimeline symbol={selectedAsset.symbol} type={selectedAsset.type} timeframe={seriesTimeframe} />
+              </Box>
+            )}
+            {/* Supertrend backtest on the chart interval */}
+            {selectedAsset && (
+              <Box mt={6}>
+                <Flex align="center" justify="space-between" mb={3} gap={4} flexWrap="wrap">
+                  <Heading size="sm" color={textColor}>Backtest ({seriesTimeframe} Supertrend)</Heading>
+                  <HStack spacing={3}>
+                    <Select
+                      size="sm"
+                      w="auto"
+                      value={backtestMode}
+                      onChange={(e) => setBacktestMode(e.target.value as "long-only" | "long-short")}
+                    >
+                      <option value="long-only">Long only</option>
+                      <option value="long-short">Long / short</option>
+                    </Select>
+                    <Text fontSize="sm" color={mutedTextColor}>Commission %</Text>
+                    <Input
+                      size="sm"
+                      w="80px"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={commissionPct}
+                      onChange={(e) => setCommissionPct(e.target.value)}
+                    />
+                    <Text fontSize="sm" color={mutedTextColor}>Slippage %</Text>
+                    <Input
+                      size="sm"
+                      w="80px"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={slippagePct}
+                      onChange={(e) => setSlippagePct(e.target.value)}
+                    />
+                  </HStack>
+                </Flex>
+                {backtestError ? (
+                  <Text fontSize="sm" color="red.500">{backtestError}</Text>
+                ) : backtest && (
+                  <>
+                    <HStack spacing={6} mb={3} fontSize="sm" color={mutedTextColor} flexWrap="wrap">
+                      {[
+                        ["Return", `${backtest.metrics.totalReturnPct.toFixed(1)}%`],
+                        ["CAGR", backtest.metrics.cagrPct === null ? "—" : `${backtest.metrics.cagrPct.toFixed(1)}%`],
+                        ["Trades", String(backtest.metrics.trades)],
+                        ["Win rate", backtest.metrics.winRatePct === null ? "—" : `${backtest.metrics.winRatePct.toFixed(0)}%`],
+                        ["Profit factor", backtest.metrics.profitFactor === null ? "—" : backtest.metrics.profitFactor.toFixed(2)],
+                        ["Max drawdown", `${backtest.metrics.maxDrawdownPct.toFixed(1)}%`],
+                        ["Commission", backtest.metrics.commissionPaid.toLocaleString(undefined, { maximumFractionDigits: 0 })],
+                      ].map(([label, value]) => (
+                        <Text key={label}>
+                          {label}:{" "}
+                          <Text as="span" fontWeight="semibold" color={textColor}>{value}</Text>
+                        </Text>
+                      ))}
+                    </HStack>
+                    <EquityChart equityCurve={backtest.equityCurve} initialCapital={backtest.metrics.initialCapital} />
+                  </>
+                )}
+                <HStack spacing={4} mt={3} fontSize="sm" flexWrap="wrap">
+                  <Button size="sm" variant="outline" onClick={runOptimization} isLoading={optimizing} loadingText="Optimising">
+                    Optimise settings
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => {
+                      setAlertDraft({ symbol: selectedAsset.symbol, timeframe: seriesTimeframe });
+                      alertsDisclosure.onOpen();
+                    }}
+                  >
+                    Create alert
+                  </Button>
+                  {optimization?.winner && (
+                    <>
+                      <Text color={mutedTextColor}>
+                        Best: <Text as="span" fontWeight="semibold" color={textColor}>
+                          ATR {optimization.winner.config.atrPeriod} × {optimization.winner.config.factor}
+                          {" "}on {optimization.winner.config.source}, {optimization.winner.config.atrSmoothing}
+                        </Text>
+                        {" "}({optimization.metric} {optimization.winner.score?.toFixed(2)}, out of sample{" "}
+                        {optimization.outOfSampleScore === null ? "—" : optimization.outOfSampleScore.toFixed(2)})
+                      </Text>
+                      <Button size="sm" colorScheme="blue" variant="ghost" onClick={saveOptimizedDefault}>
+                        Save as my {seriesTimeframe} default
+                      </Button>
+                    </>
+                  )}
+                  {optimizationMessage && <Text color={mutedTextColor}>{optimizationMessage}</Text>}
+                </HStack>
+              </Box>
+            )}
           </ModalBody>
         </ModalContent>
       </Modal>
+
+      <Watchlists
+        isOpen={watchlistsDisclosure.isOpen}
+        onClose={watchlistsDisclosure.onClose}
+        watchlists={watchlists}
+        onChange={setWatchlists}
+      />
+
+      <Alerts
+        isOpen={alertsDisclosure.isOpen}
+        onClose={alertsDisclosure.onClose}
+        draft={alertDraft}
+        onUnreadChange={setUnreadAlerts}
+      />
+
+      <IndicatorSettings
+        isOpen={settingsDisclosure.isOpen}
+        onClose={settingsDisclosure.onClose}
+        onSaved={() => setSettingsVersion((version) => version + 1)}
+      />
     </Box>
   );
 }
@@ -0,0 +1,289 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Badge,
+  Box,
+  Button,
+  Checkbox,
+  Flex,
+  HStack,
+  Input,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalHeader,
+  ModalOverlay,
+  Select,
+  Switch,
+  Tab,
+  TabList,
+  TabPanel,
+  TabPanels,
+  Tabs,
+  Text,
+  VStack,
+} from '@chakra-ui/react';
+
+const TIMEFRAMES = ['45M', '2H', '4H', '1D', '3D', '1W'];
+
+// Mirrors ALERT_CONDITIONS in lib/alerts
+const CONDITIONS: Record<string, string> = {
+  st_buy: 'Supertrend flips to buy',
+  st_sell: 'Supertrend flips to sell',
+  st_flip: 'Supertrend flips',
+  cross_above: 'Price crosses above Supertrend',
+  cross_below: 'Price crosses below Supertrend',
+};
+
+interface AlertRule {
+  id: number;
+  symbol: string | null;
+  timeframe: string;
+  condition: string;
+  email: boolean;
+  webhookUrl: string | null;
+  active: boolean;
+}
+
+interface AlertItem {
+  id: number;
+  symbol: string;
+  timeframe: string;
+  message: string;
+  readAt: string | null;
+  createdAt: string;
+}
+
+// Prefills the new-rule form, e.g. from the asset modal
+export interface AlertDraft {
+  symbol: string;
+  timeframe: string;
+}
+
+interface AlertsProps {
+  isOpen: boolean;
+  onClose: () => void;
+  draft: AlertDraft | null; // Opens on the Rules tab when set
+  onUnreadChange: (unread: number) => void;
+}
+
+/**
+ * Alert inbox and rule management
+ */
+const Alerts: React.FC<AlertsProps> = ({ isOpen, onClose, draft, onUnreadChange }) => {
+  const [tabIndex, setTabIndex] = useState(0);
+  const [alerts, setAlerts] = useState<AlertItem[]>([]);
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [symbol, setSymbol] = useState('');
+  const [timeframe, setTimeframe] = useState('1D');
+  const [condition, setCondition] = useState('st_flip');
+  const [email, setEmail] = useState(false);
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadAlerts = useCallback(async () => {
+    try {
+      const res = await fetch('/api/alerts');
+      if (res.ok) {
+        const data = await res.json();
+        setAlerts(data.alerts);
+        onUnreadChange(data.unread);
+      }
+    } catch (error) {
+      console.error('Error fetching alerts:', error);
+    }
+  }, [onUnreadChange]);
+
+  const loadRules = useCallback(async () => {
+    try {
+      const res = await fetch('/api/alerts/rules');
+      if (res.ok) {
+        setRules(await res.json());
+      }
+    } catch (error) {
+      console.error('Error fetching alert rules:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) {
+      return;
+    }
+    setMessage(null);
+    if (draft) {
+      setSymbol(draft.symbol);
+      setTimeframe(draft.timeframe);
+      setTabIndex(1);
+    } else {
+      setTabIndex(0);
+    }
+    loadAlerts();
+    loadRules();
+  }, [isOpen, draft, loadAlerts, loadRules]);
+
+  const markAllRead = async () => {
+    try {
+      await fetch('/api/alerts', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      await loadAlerts();
+    } catch (error) {
+      console.error('Error marking alerts read:', error);
+    }
+  };
+
+  const createRule = async () => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const res = await fetch('/api/alerts/rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          symbol: symbol.trim() || undefined,
+          timeframe,
+          condition,
+          email,
+          webhookUrl: webhookUrl.trim() || undefined,
+        }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setMessage('Alert created');
+        setWebhookUrl('');
+        await loadRules();
+      } else {
+        setMessage(data.message || 'Failed to create alert');
+      }
+    } catch (error) {
+      console.error('Error creating alert rule:', error);
+      setMessage('Failed to create alert');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleRule = async (rule: AlertRule) => {
+    try {
+      await fetch('/api/alerts/rules', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: rule.id, active: !rule.active }),
+      });
+      await loadRules();
+    } catch (error) {
+      console.error('Error updating alert rule:', error);
+    }
+  };
+
+  const deleteRule = async (id: number) => {
+    try {
+      await fetch('/api/alerts/rules', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id }),
+      });
+      await loadRules();
+    } catch (error) {
+      console.error('Error deleting alert rule:', error);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="3xl">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>Alerts</ModalHeader>
+        <ModalCloseButton />
+        <ModalBody pb={6}>
+          <Tabs index={tabIndex} onChange={setTabIndex}>
+            <TabList>
+              <Tab>Inbox</Tab>
+              <Tab>Rules</Tab>
+            </TabList>
+            <TabPanels>
+              <TabPanel px={0}>
+                <Flex justify="flex-end" mb={2}>
+                  <Button size="xs" variant="ghost" onClick={markAllRead} isDisabled={alerts.every((alert) => alert.readAt)}>
+                    Mark all read
+                  </Button>
+                </Flex>
+                {alerts.length === 0 ? (
+                  <Text fontSize="sm" color="gray.500">No alerts yet. They appear here when a rule fires after a scan.</Text>
+                ) : (
+                  <VStack align="stretch" spacing={2}>
+                    {alerts.map((alert) => (
+                      <Box key={alert.id} p={2} borderWidth="1px" borderRadius="md" opacity={alert.readAt ? 0.7 : 1}>
+                        <HStack justify="space-between">
+                          <HStack>
+                            {!alert.readAt && <Badge colorScheme="blue">New</Badge>}
+                            <Text fontSize="sm" fontWeight="medium">{alert.message}</Text>
+                          </HStack>
+                          <Text fontSize="xs" color="gray.500">{new Date(alert.createdAt).toLocaleString()}</Text>
+                        </HStack>
+                      </Box>
+                    ))}
+                  </VStack>
+                )}
+              </TabPanel>
+              <TabPanel px={0}>
+                <VStack align="stretch" spacing={2} mb={4}>
+                  <HStack>
+                    <Input size="sm" placeholder="Symbol (blank for all watchlists)" value={symbol} onChange={(e) => setSymbol(e.target.value)} />
+                    <Select size="sm" w="28" value={timeframe} onChange={(e) => setTimeframe(e.target.value)}>
+                      {TIMEFRAMES.map((tf) => (
+                        <option key={tf} value={tf}>{tf}</option>
+                      ))}
+                    </Select>
+                    <Select size="sm" value={condition} onChange={(e) => setCondition(e.target.value)}>
+                      {Object.entries(CONDITIONS).map(([value, label]) => (
+                        <option key={value} value={value}>{label}</option>
+                      ))}
+                    </Select>
+                  </HStack>
+                  <HStack>
+                    <Checkbox size="sm" isChecked={email} onChange={(e) => setEmail(e.target.checked)} flexShrink={0}>
+                      Email me
+                    </Checkbox>
+                    <Input size="sm" placeholder="Webhook URL (optional)" value={webhookUrl} onChange={(e) => setWebhookUrl(e.target.value)} />
+                    <Button size="sm" colorScheme="blue" onClick={createRule} isLoading={saving} flexShrink={0}>
+                      Create alert
+                    </Button>
+                  </HStack>
+                  {message && <Text fontSize="sm" color="gray.500">{message}</Text>}
+                </VStack>
+                <VStack align="stretch" spacing={2}>
+                  {rules.map((rule) => (
+                    <HStack key={rule.id} justify="space-between" p={2} borderWidth="1px" borderRadius="md">
+                      <VStack align="start" spacing={0}>
+                        <Text fontSize="sm" fontWeight="medium">
+                          {rule.symbol ?? 'Watchlists'} · {rule.timeframe} · {CONDITIONS[rule.condition] ?? rule.condition}
+                        </Text>
+                        <Text fontSize="xs" color="gray.500">
+                          {['Inbox', rule.email && 'email', rule.webhookUrl && 'webhook'].filter(Boolean).join(', ')}
+                        </Text>
+                      </VStack>
+                      <HStack>
+                        <Switch size="sm" isChecked={rule.active} onChange={() => toggleRule(rule)} aria-label="Active" />
+                        <Button size="xs" variant="ghost" colorScheme="red" onClick={() => deleteRule(rule.id)}>
+                          Delete
+                        </Button>
+                      </HStack>
+                    </HStack>
+                  ))}
+                </VStack>
+              </TabPanel>
+            </TabPanels>
+          </Tabs>
+        </ModalBody>
+      </ModalContent>
+    </Modal>
+  );
+};
+
+export default Alerts;
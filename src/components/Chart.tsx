@@ -1,12 +1,113 @@
 'use client';
 
-import { createChart, IChartApi, ISeriesApi, UTCTimestamp } from 'lightweight-charts';
-import React, { useEffect, useRef } from 'react';
+import {
+  createChart,
+  IChartApi,
+  ISeriesApi,
+  LogicalRange,
+  MouseEventParams,
+  SeriesMarker,
+  SeriesType,
+  UTCTimestamp
+} from 'lightweight-charts';
+import React, { useEffect, useRef, useState } from 'react';
 import { Button, HStack } from '@chakra-ui/react';
+import {
+  calculateATR,
+  calculateBollingerBands,
+  calculateEMA,
+  calculateMACD,
+  calculateRSI,
+  calculateSMA,
+  calculateWMA,
+  type IndicatorPoint,
+  type OHLCData
+} from '../lib/indicators';
+
+type OverlayId = 'sma20' | 'ema50' | 'wma20' | 'bb';
+
+// Indicators that can be drawn over the candles
+const OVERLAYS: { id: OverlayId; label: string; color: string; lines: (data: OHLCData[]) => IndicatorPoint[][] }[] = [
+  { id: 'sma20', label: 'SMA 20', color: '#2962ff', lines: (data) => [calculateSMA(data, 20)] },
+  { id: 'ema50', label: 'EMA 50', color: '#ff6d00', lines: (data) => [calculateEMA(data, 50)] },
+  { id: 'wma20', label: 'WMA 20', color: '#9c27b0', lines: (data) => [calculateWMA(data, 20)] },
+  {
+    id: 'bb',
+    label: 'BB 20, 2',
+    color: '#787b86',
+    lines: (data) => {
+      const bands = calculateBollingerBands(data);
+      return [
+        bands.map(({ time, upper }) => ({ time, value: upper })),
+        bands.map(({ time, middle }) => ({ time, value: middle })),
+        bands.map(({ time, lower }) => ({ time, value: lower }))
+      ];
+    }
+  }
+];
+
+type PaneId = 'rsi' | 'macd' | 'atr';
+
+// Oscillators drawn in their own panes beneath the price chart
+const PANES: { id: PaneId; label: string }[] = [
+  { id: 'rsi', label: 'RSI 14' },
+  { id: 'macd', label: 'MACD 12, 26, 9' },
+  { id: 'atr', label: 'ATR 14' },
+];
+
+const PANE_HEIGHT = 140;
+
+// Every chart reserves the same price scale width so their time axes line up
+const PRICE_SCALE_WIDTH = 80;
+
+const CHART_OPTIONS = {
+  layout: {
+    background: { color: '#ffffff' },
+    textColor: '#333333',
+  },
+  grid: {
+    vertLines: {
+      color: '#e1e1e1',
+    },
+    horzLines: {
+      color: '#e1e1e1',
+    },
+  },
+  rightPriceScale: {
+    minimumWidth: PRICE_SCALE_WIDTH,
+  },
+};
+
+function toTimestamp(time: string): UTCTimestamp {
+  return (new Date(time).getTime() / 1000) as UTCTimestamp;
+}
+
+/**
+ * First date shown for a range button
+ */
+function getRangeStart(timeframe: string, data: { time: string }[]): Date {
+  const now = new Date();
+  const startDate = new Date();
+
+  switch (timeframe) {
+    case '1M':
+      startDate.setMonth(now.getMonth() - 1);
+      return startDate;
+    case '6M':
+      startDate.setMonth(now.getMonth() - 6);
+      return startDate;
+    case '1Y':
+      startDate.setFullYear(now.getFullYear() - 1);
+      return startDate;
+    case 'ALL':
+    default:
+      return new Date(data[0]?.time || now);
+  }
+}
 
 interface ChartProps {
-  data: { time: string; open: number; high: number; low: number; close: number }[];
-  supertrend: { time: string; value: number; color: string }[];
+  data: OHLCData[];
+  supertrend: { time: string; value: number; direction: 'up' | 'down'; signal: 'buy' | 'sell' | 'hold' }[];
   indicatorLogic: string;
   timeframe: string;
   setTimeframe: (timeframe: string) => void;
@@ -16,7 +117,17 @@ const Chart: React.FC<ChartProps> = ({ data, supertrend, indicatorLogic, timefra
   const chartContainerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<IChartApi | null>(null);
   const candlestickSeriesRef = useRef<ISeriesApi<'Candlestick'> | null>(null);
-  const supertrendSeriesRef = useRef<ISeriesApi<'Line'> | null>(null);
+  const supertrendUpSeriesRef = useRef<ISeriesApi<'Line'> | null>(null);
+  const supertrendDownSeriesRef = useRef<ISeriesApi<'Line'> | null>(null);
+  const volumeSeriesRef = useRef<ISeriesApi<'Histogram'> | null>(null);
+  const overlaySeriesRef = useRef<ISeriesApi<'Line'>[]>([]);
+  const paneContainerRefs = useRef<Partial<Record<PaneId, HTMLDivElement | null>>>({});
+  const [overlays, setOverlays] = useState<OverlayId[]>([]);
+  const [panes, setPanes] = useState<PaneId[]>([]);
+  const [showSignals, setShowSignals] = useState(true);
+
+  // The container only exists once there is data to draw
+  const hasData = data.length > 0;
 
   useEffect(() => {
     if (!chartContainerRef.current) {
@@ -24,20 +135,9 @@ const Chart: React.FC<ChartProps> = ({ data, supertrend, indicatorLogic, timefra
     }
 
     const chart = createChart(chartContainerRef.current, {
+      ...CHART_OPTIONS,
       width: chartContainerRef.current.clientWidth,
       height: 500,
-      layout: {
-        background: { color: '#ffffff' },
-        textColor: '#333333',
-      },
-      grid: {
-        vertLines: {
-          color: '#e1e1e1',
-        },
-        horzLines: {
-          color: '#e1e1e1',
-        },
-      },
     });
     chartRef.current = chart;
 
@@ -49,9 +149,31 @@ const Chart: React.FC<ChartProps> = ({ data, supertrend, indicatorLogic, timefra
       wickDownColor: '#ef5350',
       wickUpColor: '#26a69a',
     });
+    // Leave the bottom of the pane to the volume histogram
+    candlestickSeriesRef.current.priceScale().applyOptions({
+      scaleMargins: { top: 0.1, bottom: 0.25 },
+    });
+
+    volumeSeriesRef.current = chart.addHistogramSeries({
+      priceScaleId: 'volume',
+      priceFormat: { type: 'volume' },
+      priceLineVisible: false,
+      lastValueVisible: false,
+    });
+    chart.priceScale('volume').applyOptions({
+      scaleMargins: { top: 0.8, bottom: 0 },
+    });
 
-    supertrendSeriesRef.current = chart.addLineSeries({
+    // Supertrend is drawn as two lines so each segment takes its trend's colour
+    supertrendUpSeriesRef.current = chart.addLineSeries({
+      color: '#26a69a',
       lineWidth: 2,
+      priceLineVisible: false,
+    });
+    supertrendDownSeriesRef.current = chart.addLineSeries({
+      color: '#ef5350',
+      lineWidth: 2,
+      priceLineVisible: false,
     });
 
     const resizeObserver = new ResizeObserver(entries => {
@@ -66,30 +188,19 @@ const Chart: React.FC<ChartProps> = ({ data, supertrend, indicatorLogic, timefra
     return () => {
       resizeObserver.disconnect();
       chart.remove();
+      chartRef.current = null;
+      candlestickSeriesRef.current = null;
+      volumeSeriesRef.current = null;
+      supertrendUpSeriesRef.current = null;
+      supertrendDownSeriesRef.current = null;
+      overlaySeriesRef.current = [];
     };
-  }, []);
+  }, [hasData]);
 
   useEffect(() => {
     if (candlestickSeriesRef.current) {
       console.log(`Timeframe changed to: ${timeframe}. Filtering data.`);
-      const now = new Date();
-      let startDate = new Date();
-
-      switch (timeframe) {
-        case '1M':
-          startDate.setMonth(now.getMonth() - 1);
-          break;
-        case '6M':
-          startDate.setMonth(now.getMonth() - 6);
-          break;
-        case '1Y':
-          startDate.setFullYear(now.getFullYear() - 1);
-          break;
-        case 'ALL':
-        default:
-          startDate = new Date(data[0]?.time || now);
-          break;
-      }
+      const startDate = getRangeStart(timeframe, data);
       
       console.log(`Filtering data from ${startDate.toISOString()}`);
 
@@ -105,6 +216,13 @@ const Chart: React.FC<ChartProps> = ({ data, supertrend, indicatorLogic, timefra
       
       console.log(`Setting chart data with ${chartData.length} points.`);
       candlestickSeriesRef.current.setData(chartData);
+      volumeSeriesRef.current?.setData(
+        chartData.map((d) => ({
+          time: d.time,
+          value: d.volume,
+          color: d.close >= d.open ? 'rgba(38, 166, 154, 0.5)' : 'rgba(239, 83, 80, 0.5)',
+        }))
+      );
       if (chartRef.current) {
         chartRef.current.timeScale().fitContent();
       }
@@ -112,19 +230,230 @@ const Chart: React.FC<ChartProps> = ({ data, supertrend, indicatorLogic, timefra
   }, [data, timeframe]);
 
   useEffect(() => {
-    if (supertrendSeriesRef.current) {
-      const supertrendData = supertrend
-        .map((s) => ({
-          time: (new Date(s.time).getTime() / 1000) as UTCTimestamp,
-          value: s.value,
-          color: s.color,
-        }))
+    if (supertrendUpSeriesRef.current && supertrendDownSeriesRef.current) {
+      const startDate = getRangeStart(timeframe, data);
+      const points = supertrend
+        .filter((s) => new Date(s.time) >= startDate)
+        .map((s) => ({ ...s, time: (new Date(s.time).getTime() / 1000) as UTCTimestamp }))
         .sort((a, b) => a.time - b.time)
         .filter((s, i, arr) => i === 0 || s.time !== arr[i - 1].time);
 
-      supertrendSeriesRef.current.setData(supertrendData);
+      // Whitespace points (time only) break each line where the other direction takes over
+      supertrendUpSeriesRef.current.setData(
+        points.map((s) => (s.direction === 'up' ? { time: s.time, value: s.value } : { time: s.time }))
+      );
+      supertrendDownSeriesRef.current.setData(
+        points.map((s) => (s.direction === 'down' ? { time: s.time, value: s.value } : { time: s.time }))
+      );
+    }
+  }, [supertrend, data, timeframe]);
+
+  useEffect(() => {
+    if (!candlestickSeriesRef.current) {
+      return;
+    }
+
+    // Arrows at each Supertrend flip, labelled with the closing price
+    const startDate = getRangeStart(timeframe, data);
+    const closes = new Map(data.map(d => [new Date(d.time).getTime(), d.close]));
+    const markers: SeriesMarker<UTCTimestamp>[] = showSignals
+      ? supertrend
+          .filter((s) => s.signal !== 'hold' && new Date(s.time) >= startDate)
+          .map((s) => {
+            const time = new Date(s.time).getTime();
+            const price = (closes.get(time) ?? s.value).toLocaleString(undefined, { maximumFractionDigits: 2 });
+            return s.signal === 'buy'
+              ? { time: (time / 1000) as UTCTimestamp, position: 'belowBar' as const, color: '#26a69a', shape: 'arrowUp' as const, text: `Buy ${price}` }
+              : { time: (time / 1000) as UTCTimestamp, position: 'aboveBar' as const, color: '#ef5350', shape: 'arrowDown' as const, text: `Sell ${price}` };
+          })
+          .sort((a, b) => a.time - b.time)
+      : [];
+
+    candlestickSeriesRef.current.setMarkers(markers);
+  }, [supertrend, data, timeframe, showSignals]);
+
+  useEffect(() => {
+    const chart = chartRef.current;
+    if (!chart) {
+      return;
+    }
+
+    // Rebuild the overlay lines for the selected indicators
+    overlaySeriesRef.current.forEach(series => chart.removeSeries(series));
+    overlaySeriesRef.current = [];
+
+    const startDate = getRangeStart(timeframe, data);
+    OVERLAYS.filter(overlay => overlays.includes(overlay.id)).forEach(overlay => {
+      let lines: IndicatorPoint[][];
+      try {
+        lines = overlay.lines(data);
+      } catch (error) {
+        console.warn(`Not enough data for ${overlay.label}:`, error);
+        return;
+      }
+
+      lines.forEach(line => {
+        const series = chart.addLineSeries({
+          color: overlay.color,
+          lineWidth: 1,
+          priceLineVisible: false,
+          lastValueVisible: false,
+        });
+        series.setData(
+          line
+            .filter(point => new Date(point.time) >= startDate)
+            .map(point => ({ time: (new Date(point.time).getTime() / 1000) as UTCTimestamp, value: point.value }))
+        );
+        overlaySeriesRef.current.push(series);
+      });
+    });
+  }, [data, timeframe, overlays]);
+
+  useEffect(() => {
+    const mainChart = chartRef.current;
+    const candlestickSeries = candlestickSeriesRef.current;
+    if (!mainChart || !candlestickSeries) {
+      return;
+    }
+
+    const startDate = getRangeStart(timeframe, data);
+    const times = data
+      .filter((d) => new Date(d.time) >= startDate)
+      .map((d) => toTimestamp(d.time))
+      .sort((a, b) => a - b)
+      .filter((time, i, arr) => i === 0 || time !== arr[i - 1]);
+
+    // Each chart with the series the crosshair follows and its value at each time
+    interface LinkedChart {
+      chart: IChartApi;
+      series: ISeriesApi<SeriesType>;
+      values: Map<number, number>;
+    }
+    const linked: LinkedChart[] = [
+      { chart: mainChart, series: candlestickSeries, values: new Map(data.map((d) => [toTimestamp(d.time), d.close])) },
+    ];
+    const observers: ResizeObserver[] = [];
+
+    // Pad warm-up bars with whitespace so every pane has a point at each candle time
+    const toPaneData = (values: Map<number, number>) =>
+      times.map((time) => (values.has(time) ? { time, value: values.get(time) as number } : { time }));
+
+    PANES.filter((pane) => panes.includes(pane.id)).forEach((pane) => {
+      const container = paneContainerRefs.current[pane.id];
+      if (!container) {
+        return;
+      }
+
+      let lines: { values: Map<number, number>; color: string; histogram?: boolean }[];
+      try {
+        if (pane.id === 'rsi') {
+          lines = [{ values: new Map(calculateRSI(data).map((p) => [toTimestamp(p.time), p.value])), color: '#7e57c2' }];
+        } else if (pane.id === 'macd') {
+          const macd = calculateMACD(data);
+          lines = [
+            { values: new Map(macd.map((p) => [toTimestamp(p.time), p.histogram])), color: '#b2b5be', histogram: true },
+            { values: new Map(macd.map((p) => [toTimestamp(p.time), p.macd])), color: '#2962ff' },
+            { values: new Map(macd.map((p) => [toTimestamp(p.time), p.signal])), color: '#ff6d00' },
+          ];
+        } else {
+          // ATR values cover the candles from the end of the first period onwards
+          const atr = calculateATR(data, 14);
+          const offset = data.length - atr.length;
+          lines = [{ values: new Map(atr.map((value, i) => [toTimestamp(data[offset + i].time), value])), color: '#26a69a' }];
+        }
+      } catch (error) {
+        console.warn(`Not enough data for ${pane.label}:`, error);
+        return;
+      }
+
+      const chart = createChart(container, {
+        ...CHART_OPTIONS,
+        width: container.clientWidth,
+        height: PANE_HEIGHT,
+        timeScale: { visible: false },
+      });
+
+      const series = lines.map((line) => {
+        if (line.histogram) {
+          const histogram = chart.addHistogramSeries({ priceLineVisible: false, lastValueVisible: false });
+          histogram.setData(
+            times.map((time) => {
+              const value = line.values.get(time);
+              return value === undefined
+                ? { time }
+                : { time, value, color: value >= 0 ? 'rgba(38, 166, 154, 0.6)' : 'rgba(239, 83, 80, 0.6)' };
+            })
+          );
+          return histogram;
+        }
+        const lineSeries = chart.addLineSeries({ color: line.color, lineWidth: 1, priceLineVisible: false });
+        lineSeries.setData(toPaneData(line.values));
+        return lineSeries;
+      });
+
+      if (pane.id === 'rsi') {
+        series[0].createPriceLine({ price: 70, color: '#b2b5be', lineWidth: 1, lineStyle: 2, axisLabelVisible: false, title: '' });
+        series[0].createPriceLine({ price: 30, color: '#b2b5be', lineWidth: 1, lineStyle: 2, axisLabelVisible: false, title: '' });
+      }
+
+      // The crosshair follows the pane's main line (MACD's is after the histogram)
+      const followed = pane.id === 'macd' ? 1 : 0;
+      linked.push({ chart, series: series[followed], values: lines[followed].values });
+
+      const observer = new ResizeObserver((entries) => {
+        const { width } = entries[0].contentRect;
+        if (width > 0) {
+          chart.resize(width, PANE_HEIGHT);
+        }
+      });
+      observer.observe(container);
+      observers.push(observer);
+    });
+
+    // Scrolling, zooming and the crosshair move every chart together
+    const rangeHandlers = linked.map((source) => (range: LogicalRange | null) => {
+      if (range) {
+        linked.filter((target) => target !== source).forEach((target) => target.chart.timeScale().setVisibleLogicalRange(range));
+      }
+    });
+    const crosshairHandlers = linked.map((source) => (param: MouseEventParams) => {
+      linked.filter((target) => target !== source).forEach((target) => {
+        const value = param.time === undefined ? undefined : target.values.get(param.time as number);
+        if (param.time === undefined || value === undefined) {
+          target.chart.clearCrosshairPosition();
+        } else {
+          target.chart.setCrosshairPosition(value, param.time, target.series);
+        }
+      });
+    });
+    linked.forEach(({ chart }, i) => {
+      chart.timeScale().subscribeVisibleLogicalRangeChange(rangeHandlers[i]);
+      chart.subscribeCrosshairMove(crosshairHandlers[i]);
+    });
+
+    const range = mainChart.timeScale().getVisibleLogicalRange();
+    if (range) {
+      rangeHandlers[0](range);
     }
-  }, [supertrend]);
+
+    return () => {
+      observers.forEach((observer) => observer.disconnect());
+      // The main chart may already be gone when the whole component unmounts
+      if (chartRef.current === mainChart) {
+        mainChart.timeScale().unsubscribeVisibleLogicalRangeChange(rangeHandlers[0]);
+        mainChart.unsubscribeCrosshairMove(crosshairHandlers[0]);
+      }
+      linked.slice(1).forEach(({ chart }) => chart.remove());
+    };
+  }, [hasData, panes, data, timeframe]);
+
+  const togglePane = (id: PaneId) => {
+    setPanes(current => (current.includes(id) ? current.filter(pane => pane !== id) : [...current, id]));
+  };
+
+  const toggleOverlay = (id: OverlayId) => {
+    setOverlays(current => (current.includes(id) ? current.filter(overlay => overlay !== id) : [...current, id]));
+  };
 
   if (data.length === 0) {
     return (
@@ -152,7 +481,53 @@ const Chart: React.FC<ChartProps> = ({ data, supertrend, indicatorLogic, timefra
           </Button>
         ))}
       </HStack>
+      <HStack justify="center" mb={4}>
+        <Button
+          size="xs"
+          variant={showSignals ? 'solid' : 'outline'}
+          colorScheme="gray"
+          onClick={() => setShowSignals(!showSignals)}
+        >
+          Signals
+        </Button>
+        {OVERLAYS.map((overlay) => (
+          <Button
+            key={overlay.id}
+            size="xs"
+            variant={overlays.includes(overlay.id) ? 'solid' : 'outline'}
+            colorScheme="gray"
+            borderColor={overlay.color}
+            onClick={() => toggleOverlay(overlay.id)}
+          >
+            {overlay.label}
+          </Button>
+        ))}
+        {PANES.map((pane) => (
+          <Button
+            key={pane.id}
+            size="xs"
+            variant={panes.includes(pane.id) ? 'solid' : 'outline'}
+            colorScheme="purple"
+            onClick={() => togglePane(pane.id)}
+          >
+            {pane.label}
+          </Button>
+        ))}
+      </HStack>
       <div ref={chartContainerRef} style={{ height: '500px', width: '100%' }} />
+      {PANES.filter((pane) => panes.includes(pane.id)).map((pane) => (
+        <div key={pane.id} style={{ position: 'relative', marginTop: '4px' }}>
+          <div style={{ position: 'absolute', top: '4px', left: '8px', zIndex: 2, fontSize: '12px', color: '#333333' }}>
+            {pane.label}
+          </div>
+          <div
+            ref={(element) => {
+              paneContainerRefs.current[pane.id] = element;
+            }}
+            style={{ height: `${PANE_HEIGHT}px`, width: '100%' }}
+          />
+        </div>
+      ))}
       <div style={{ color: '#333333', marginTop: '10px', padding: '10px', backgroundColor: '#f4f4f4', borderRadius: '4px' }}>
         {indicatorLogic}
       </div>
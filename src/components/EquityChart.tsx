@@ -0,0 +1,83 @@
+'use client';
+
+import { createChart, IChartApi, ISeriesApi, UTCTimestamp } from 'lightweight-charts';
+import React, { useEffect, useRef } from 'react';
+
+const HEIGHT = 200;
+
+function toTimestamp(time: string): UTCTimestamp {
+  return (new Date(time).getTime() / 1000) as UTCTimestamp;
+}
+
+interface EquityChartProps {
+  equityCurve: { time: string; equity: number }[];
+  initialCapital: number;
+}
+
+/**
+ * Backtest equity curve, green while above the starting capital and red below
+ */
+const EquityChart: React.FC<EquityChartProps> = ({ equityCurve, initialCapital }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const chartRef = useRef<IChartApi | null>(null);
+  const seriesRef = useRef<ISeriesApi<'Baseline'> | null>(null);
+
+  useEffect(() => {
+    if (!containerRef.current) {
+      return;
+    }
+
+    const chart = createChart(containerRef.current, {
+      width: containerRef.current.clientWidth,
+      height: HEIGHT,
+      layout: {
+        background: { color: '#ffffff' },
+        textColor: '#333333',
+      },
+      grid: {
+        vertLines: { color: '#e1e1e1' },
+        horzLines: { color: '#e1e1e1' },
+      },
+    });
+    chartRef.current = chart;
+
+    seriesRef.current = chart.addBaselineSeries({
+      topLineColor: '#26a69a',
+      topFillColor1: 'rgba(38, 166, 154, 0.28)',
+      topFillColor2: 'rgba(38, 166, 154, 0.05)',
+      bottomLineColor: '#ef5350',
+      bottomFillColor1: 'rgba(239, 83, 80, 0.05)',
+      bottomFillColor2: 'rgba(239, 83, 80, 0.28)',
+      lineWidth: 2,
+      priceLineVisible: false,
+    });
+
+    const resizeObserver = new ResizeObserver(entries => {
+      const { width } = entries[0].contentRect;
+      if (width > 0) {
+        chart.resize(width, HEIGHT);
+      }
+    });
+    resizeObserver.observe(containerRef.current);
+
+    return () => {
+      resizeObserver.disconnect();
+      chart.remove();
+      chartRef.current = null;
+      seriesRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!seriesRef.current) {
+      return;
+    }
+    seriesRef.current.applyOptions({ baseValue: { type: 'price', price: initialCapital } });
+    seriesRef.current.setData(equityCurve.map(({ time, equity }) => ({ time: toTimestamp(time), value: equity })));
+    chartRef.current?.timeScale().fitContent();
+  }, [equityCurve, initialCapital]);
+
+  return <div ref={containerRef} style={{ width: '100%', height: HEIGHT }} />;
+};
+
+export default EquityChart;
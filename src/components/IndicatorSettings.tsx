@@ -0,0 +1,264 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Badge,
+  Button,
+  Input,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Select,
+  Spinner,
+  Center,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+} from '@chakra-ui/react';
+
+const TIMEFRAMES = ['45M', '2H', '4H', '1D', '3D', '1W'];
+
+interface SupertrendSetting {
+  atrPeriod: number;
+  factor: number;
+  source?: string;
+  atrSmoothing?: string;
+}
+
+// Form values are kept as typed so a half-entered number doesn't jump
+interface SettingRow {
+  atrPeriod: string;
+  factor: string;
+  source: string;
+  atrSmoothing: string;
+}
+
+function toRow(setting: SupertrendSetting): SettingRow {
+  return {
+    atrPeriod: String(setting.atrPeriod),
+    factor: String(setting.factor),
+    source: setting.source ?? 'hl2',
+    atrSmoothing: setting.atrSmoothing ?? 'rma',
+  };
+}
+
+function sameRow(a: SettingRow, b: SettingRow): boolean {
+  return a.atrPeriod === b.atrPeriod && a.factor === b.factor && a.source === b.source && a.atrSmoothing === b.atrSmoothing;
+}
+
+interface IndicatorSettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: () => void; // Called after any change, so the scan can be refreshed
+}
+
+/**
+ * Per-timeframe Supertrend settings of the logged-in user
+ */
+const IndicatorSettings: React.FC<IndicatorSettingsProps> = ({ isOpen, onClose, onSaved }) => {
+  const [rows, setRows] = useState<Record<string, SettingRow>>({});
+  const [saved, setSaved] = useState<Record<string, SettingRow>>({});
+  const [customized, setCustomized] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSettings = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/settings');
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.message || 'Failed to load settings');
+        return;
+      }
+      const loaded = Object.fromEntries(
+        TIMEFRAMES.map((timeframe) => [timeframe, toRow(data.settings[timeframe])])
+      );
+      setRows(loaded);
+      setSaved(loaded);
+      setCustomized(data.customized);
+    } catch (err) {
+      console.error('Error loading settings:', err);
+      setError('Failed to load settings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      loadSettings();
+    }
+  }, [isOpen]);
+
+  const updateRow = (timeframe: string, field: keyof SettingRow, value: string) => {
+    setRows((current) => ({ ...current, [timeframe]: { ...current[timeframe], [field]: value } }));
+  };
+
+  const saveSettings = async () => {
+    const changed = TIMEFRAMES.filter((timeframe) => rows[timeframe] && !sameRow(rows[timeframe], saved[timeframe]));
+    setSaving(true);
+    setError(null);
+    try {
+      for (const timeframe of changed) {
+        const row = rows[timeframe];
+        const res = await fetch('/api/settings', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            timeframe,
+            atrPeriod: Number(row.atrPeriod),
+            factor: Number(row.factor),
+            source: row.source,
+            atrSmoothing: row.atrSmoothing,
+          }),
+        });
+        if (!res.ok) {
+          const data = await res.json();
+          setError(`${timeframe}: ${data.message || 'Failed to save'}`);
+          return;
+        }
+      }
+      if (changed.length > 0) {
+        onSaved();
+      }
+      onClose();
+    } catch (err) {
+      console.error('Error saving settings:', err);
+      setError('Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const resetTimeframe = async (timeframe: string) => {
+    try {
+      const res = await fetch('/api/settings', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ timeframe }),
+      });
+      if (res.ok) {
+        await loadSettings();
+        onSaved();
+      }
+    } catch (err) {
+      console.error('Error resetting settings:', err);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="3xl">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>Supertrend Settings</ModalHeader>
+        <ModalCloseButton />
+        <ModalBody>
+          {loading ? (
+            <Center h="200px">
+              <Spinner size="lg" color="blue.500" thickness="3px" />
+            </Center>
+          ) : (
+            <Table size="sm">
+              <Thead>
+                <Tr>
+                  <Th>Timeframe</Th>
+                  <Th>ATR Period</Th>
+                  <Th>Factor</Th>
+                  <Th>Source</Th>
+                  <Th>ATR Smoothing</Th>
+                  <Th></Th>
+                </Tr>
+              </Thead>
+              <Tbody>
+                {TIMEFRAMES.filter((timeframe) => rows[timeframe]).map((timeframe) => (
+                  <Tr key={timeframe}>
+                    <Td fontWeight="semibold">
+                      {timeframe}
+                      {customized.includes(timeframe) && (
+                        <Badge ml={2} colorScheme="blue" variant="subtle">Custom</Badge>
+                      )}
+                    </Td>
+                    <Td>
+                      <Input
+                        size="sm"
+                        type="number"
+                        min="1"
+                        step="1"
+                        value={rows[timeframe].atrPeriod}
+                        onChange={(e) => updateRow(timeframe, 'atrPeriod', e.target.value)}
+                      />
+                    </Td>
+                    <Td>
+                      <Input
+                        size="sm"
+                        type="number"
+                        min="0.1"
+                        step="0.1"
+                        value={rows[timeframe].factor}
+                        onChange={(e) => updateRow(timeframe, 'factor', e.target.value)}
+                      />
+                    </Td>
+                    <Td>
+                      <Select size="sm" value={rows[timeframe].source} onChange={(e) => updateRow(timeframe, 'source', e.target.value)}>
+                        <option value="hl2">HL2</option>
+                        <option value="hlc3">HLC3</option>
+                        <option value="ohlc4">OHLC4</option>
+                        <option value="close">Close</option>
+                      </Select>
+                    </Td>
+                    <Td>
+                      <Select
+                        size="sm"
+                        value={rows[timeframe].atrSmoothing}
+                        onChange={(e) => updateRow(timeframe, 'atrSmoothing', e.target.value)}
+                      >
+                        <option value="rma">RMA (Wilder)</option>
+                        <option value="sma">SMA</option>
+                        <option value="ema">EMA</option>
+                        <option value="wma">WMA</option>
+                      </Select>
+                    </Td>
+                    <Td>
+                      <Button
+                        size="xs"
+                        variant="ghost"
+                        isDisabled={!customized.includes(timeframe)}
+                        onClick={() => resetTimeframe(timeframe)}
+                      >
+                        Reset
+                      </Button>
+                    </Td>
+                  </Tr>
+                ))}
+              </Tbody>
+            </Table>
+          )}
+          {error && (
+            <Text mt={3} fontSize="sm" color="red.500">{error}</Text>
+          )}
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="ghost" mr={3} onClick={onClose}>
+            Cancel
+          </Button>
+          <Button colorScheme="blue" onClick={saveSettings} isLoading={saving} isDisabled={loading}>
+            Save
+          </Button>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
+
+export default IndicatorSettings;
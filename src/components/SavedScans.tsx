@@ -0,0 +1,264 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Button,
+  HStack,
+  Input,
+  Menu,
+  MenuButton,
+  MenuItem,
+  MenuList,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Select,
+  Text,
+  useDisclosure,
+  useToast,
+} from '@chakra-ui/react';
+
+// What a saved scan restores, in the dashboard's own terms
+export interface ScanView {
+  universe: string; // Empty for the default universes
+  filter: string;
+  sort: 'none' | 'desc' | 'asc'; // Alignment sort
+  columns: string[];
+}
+
+interface SavedScan {
+  id: number;
+  name: string;
+  universe: string | null;
+  filter: string | null;
+  sort: string | null;
+  columns: string[];
+  shareToken: string;
+}
+
+function toView(scan: SavedScan): ScanView {
+  return {
+    universe: scan.universe ?? '',
+    filter: scan.filter ?? '',
+    sort: scan.sort === 'alignment:desc' ? 'desc' : scan.sort === 'alignment:asc' ? 'asc' : 'none',
+    columns: scan.columns,
+  };
+}
+
+function toDefinition(name: string, view: ScanView) {
+  return {
+    name,
+    universe: view.universe || null,
+    filter: view.filter || null,
+    sort: view.sort === 'none' ? null : `alignment:${view.sort}`,
+    columns: view.columns,
+  };
+}
+
+function shareLink(shareToken: string): string {
+  return `${window.location.origin}/?scan=${encodeURIComponent(shareToken)}`;
+}
+
+interface SavedScansProps {
+  current: ScanView;
+  onApply: (view: ScanView) => void;
+  bg?: string;
+  borderColor?: string;
+}
+
+/**
+ * Switch between, save and share the logged-in user's saved scans
+ */
+const SavedScans: React.FC<SavedScansProps> = ({ current, onApply, bg, borderColor }) => {
+  const [scans, setScans] = useState<SavedScan[]>([]);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const nameDisclosure = useDisclosure();
+  const toast = useToast();
+
+  const selected = scans.find((scan) => scan.id === selectedId) ?? null;
+
+  const loadScans = useCallback(async () => {
+    try {
+      const res = await fetch('/api/scans');
+      if (res.ok) {
+        setScans(await res.json());
+      }
+    } catch (err) {
+      console.error('Error fetching saved scans:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadScans();
+  }, [loadScans]);
+
+  const selectScan = (id: string) => {
+    const scan = scans.find((s) => String(s.id) === id);
+    setSelectedId(scan ? scan.id : null);
+    if (scan) {
+      onApply(toView(scan));
+    }
+  };
+
+  // Returns why the save failed, or null once saved
+  const saveScan = async (method: 'POST' | 'PUT', scanName: string): Promise<string | null> => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/scans', {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...toDefinition(scanName, current), id: method === 'PUT' ? selectedId : undefined }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        return data.message || 'Failed to save scan';
+      }
+      await loadScans();
+      setSelectedId(data.id);
+      toast({ title: `Saved "${data.name}"`, status: 'success', duration: 3000, isClosable: true });
+      return null;
+    } catch (err) {
+      console.error('Error saving scan:', err);
+      return 'Failed to save scan';
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveAsNew = async () => {
+    const failure = await saveScan('POST', name.trim());
+    setError(failure);
+    if (!failure) {
+      nameDisclosure.onClose();
+    }
+  };
+
+  const updateSelected = async () => {
+    if (!selected) {
+      return;
+    }
+    const failure = await saveScan('PUT', selected.name);
+    if (failure) {
+      toast({ title: 'Could not save scan', description: failure, status: 'error', duration: 5000, isClosable: true });
+    }
+  };
+
+  const copyShareLink = async () => {
+    if (!selected) {
+      return;
+    }
+    const link = shareLink(selected.shareToken);
+    try {
+      await navigator.clipboard.writeText(link);
+      toast({ title: 'Share link copied', description: link, status: 'success', duration: 5000, isClosable: true });
+    } catch {
+      toast({ title: 'Share link', description: link, status: 'info', duration: 10000, isClosable: true });
+    }
+  };
+
+  const deleteSelected = async () => {
+    if (!selected) {
+      return;
+    }
+    try {
+      const res = await fetch('/api/scans', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: selected.id }),
+      });
+      if (res.ok) {
+        setSelectedId(null);
+        await loadScans();
+      }
+    } catch (err) {
+      console.error('Error deleting scan:', err);
+    }
+  };
+
+  return (
+    <HStack spacing={1}>
+      <Select
+        w="44"
+        size="sm"
+        value={selectedId ?? ''}
+        onChange={(e) => selectScan(e.target.value)}
+        bg={bg}
+        borderColor={borderColor}
+        aria-label="Saved scan"
+      >
+        <option value="">Unsaved scan</option>
+        {scans.map((scan) => (
+          <option key={scan.id} value={scan.id}>
+            {scan.name}
+          </option>
+        ))}
+      </Select>
+      <Menu>
+        <MenuButton as={Button} size="sm" variant="ghost" aria-label="Saved scan actions">
+          ⋯
+        </MenuButton>
+        <MenuList fontSize="sm">
+          <MenuItem
+            onClick={() => {
+              setName('');
+              setError(null);
+              nameDisclosure.onOpen();
+            }}
+          >
+            Save as new scan…
+          </MenuItem>
+          <MenuItem isDisabled={!selected} onClick={updateSelected}>
+            Save changes{selected ? ` to "${selected.name}"` : ''}
+          </MenuItem>
+          <MenuItem isDisabled={!selected} onClick={copyShareLink}>
+            Copy read-only link
+          </MenuItem>
+          <MenuItem isDisabled={!selected} color="red.500" onClick={deleteSelected}>
+            Delete
+          </MenuItem>
+        </MenuList>
+      </Menu>
+
+      <Modal isOpen={nameDisclosure.isOpen} onClose={nameDisclosure.onClose} size="sm">
+        <ModalOverlay />
+        <ModalContent>
+          <ModalHeader>Save scan</ModalHeader>
+          <ModalCloseButton />
+          <ModalBody>
+            <Input
+              placeholder="Name"
+              value={name}
+              maxLength={100}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && name.trim()) saveAsNew();
+              }}
+              autoFocus
+            />
+            <Text mt={2} fontSize="xs" color="gray.500">
+              Saves the universe, screener filter, alignment sort and visible columns.
+            </Text>
+            {error && <Text mt={2} fontSize="sm" color="red.500">{error}</Text>}
+          </ModalBody>
+          <ModalFooter>
+            <Button variant="ghost" mr={3} onClick={nameDisclosure.onClose}>
+              Cancel
+            </Button>
+            <Button colorScheme="blue" onClick={saveAsNew} isLoading={saving} isDisabled={!name.trim()}>
+              Save
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+    </HStack>
+  );
+};
+
+export default SavedScans;
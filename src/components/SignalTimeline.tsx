@@ -0,0 +1,110 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Badge, Box, HStack, Spinner, Text, VStack, useColorModeValue } from '@chakra-ui/react';
+
+interface SignalEvent {
+  timeframe: string;
+  kind: 'supertrend' | 'trend';
+  previous: string | null;
+  current: string;
+  price: number;
+  barTime: string;
+  createdAt: string;
+}
+
+const BULLISH = ['up', 'uptrend'];
+const BEARISH = ['down', 'downtrend'];
+
+function stateColor(state: string): string {
+  if (BULLISH.includes(state)) return 'green';
+  if (BEARISH.includes(state)) return 'red';
+  return 'gray';
+}
+
+// Daily bars are dates; intraday ones are ISO times
+function formatBarTime(barTime: string): string {
+  const date = new Date(barTime);
+  return barTime.includes('T')
+    ? date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+}
+
+interface SignalTimelineProps {
+  symbol: string;
+  type: 'stock' | 'crypto';
+  timeframe: string;
+}
+
+/**
+ * Supertrend flips and trend changes of one asset and timeframe, newest first
+ */
+const SignalTimeline: React.FC<SignalTimelineProps> = ({ symbol, type, timeframe }) => {
+  const [events, setEvents] = useState<SignalEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const lineColor = useColorModeValue('gray.200', 'gray.600');
+  const mutedTextColor = useColorModeValue('gray.600', 'gray.400');
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchEvents = async () => {
+      setLoading(true);
+      try {
+        const params = new URLSearchParams({ symbol, type, timeframe, limit: '50' });
+        const res = await fetch(`/api/signals?${params}`);
+        if (res.ok) {
+          const data = await res.json();
+          if (!cancelled) {
+            setEvents(data.events);
+          }
+        } else {
+          console.error('Failed to fetch signal history');
+        }
+      } catch (error) {
+        console.error('Error fetching signal history:', error);
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+    fetchEvents();
+    return () => {
+      cancelled = true;
+    };
+  }, [symbol, type, timeframe]);
+
+  if (loading && events.length === 0) {
+    return <Spinner size="sm" color="blue.500" />;
+  }
+  if (events.length === 0) {
+    return (
+      <Text fontSize="sm" color={mutedTextColor}>
+        No signal changes recorded yet. They are logged by each scheduled scan.
+      </Text>
+    );
+  }
+
+  return (
+    <VStack align="stretch" spacing={0} maxH="220px" overflowY="auto" borderLeftWidth="2px" borderColor={lineColor} pl={4}>
+      {events.map((event) => (
+        <Box key={`${event.kind}-${event.barTime}-${event.current}`} py={1.5}>
+          <HStack spacing={2} fontSize="sm" flexWrap="wrap">
+            <Text color={mutedTextColor} minW="130px">{formatBarTime(event.barTime)}</Text>
+            <Badge variant="outline">{event.kind === 'supertrend' ? 'Supertrend' : 'Trend'}</Badge>
+            {event.previous && (
+              <>
+                <Badge colorScheme={stateColor(event.previous)} variant="subtle">{event.previous}</Badge>
+                <Text color={mutedTextColor}>→</Text>
+              </>
+            )}
+            <Badge colorScheme={stateColor(event.current)}>{event.current}</Badge>
+            <Text color={mutedTextColor}>at {event.price.toLocaleString(undefined, { maximumFractionDigits: 4 })}</Text>
+          </HStack>
+        </Box>
+      ))}
+    </VStack>
+  );
+};
+
+export default SignalTimeline;
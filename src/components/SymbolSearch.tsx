@@ -0,0 +1,115 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Box, Input, Text, VStack, useColorModeValue } from '@chakra-ui/react';
+
+interface SymbolResult {
+  symbol: string;
+  name: string;
+  type: 'stock' | 'crypto';
+  exchange?: string;
+}
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 200;
+
+interface SymbolSearchProps {
+  onSelect: (symbol: string, type?: SymbolResult['type']) => void;
+  placeholder?: string;
+  isDisabled?: boolean;
+}
+
+/**
+ * Ticker input with search-as-you-type suggestions from /api/symbols
+ */
+const SymbolSearch: React.FC<SymbolSearchProps> = ({ onSelect, placeholder = 'Add symbol…', isDisabled }) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SymbolResult[]>([]);
+  const [resultsFor, setResultsFor] = useState(''); // The query the results were found for
+  const menuBg = useColorModeValue('white', 'gray.700');
+  const hoverBg = useColorModeValue('gray.100', 'gray.600');
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/symbols?q=${encodeURIComponent(query.trim())}&limit=8`, { signal: controller.signal });
+        if (res.ok) {
+          setResults((await res.json()).symbols);
+          setResultsFor(query.trim());
+        }
+      } catch (err) {
+        if ((err as Error).name !== 'AbortError') {
+          console.error('Error searching symbols:', err);
+        }
+      }
+    }, SEARCH_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  const select = (symbol: string, type?: SymbolResult['type']) => {
+    onSelect(symbol, type);
+    setQuery('');
+    setResults([]);
+  };
+
+  // Enter takes the top suggestion, unless it is for an older query still being replaced
+  const submit = () => {
+    const typed = query.trim();
+    const top = resultsFor === typed ? results[0] : undefined;
+    select(top?.symbol ?? typed, top?.type);
+  };
+
+  return (
+    <Box position="relative">
+      <Input
+        w="40"
+        size="sm"
+        placeholder={placeholder}
+        value={query}
+        isDisabled={isDisabled}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && query.trim()) submit();
+          if (e.key === 'Escape') setResults([]);
+        }}
+        aria-label="Symbol search"
+      />
+      {results.length > 0 && (
+        <VStack
+          position="absolute"
+          top="100%"
+          left={0}
+          zIndex="dropdown"
+          minW="64"
+          mt={1}
+          py={1}
+          spacing={0}
+          align="stretch"
+          bg={menuBg}
+          borderWidth="1px"
+          borderRadius="md"
+          boxShadow="md"
+        >
+          {results.map((result) => (
+            <Box key={`${result.type}:${result.symbol}`} as="button" textAlign="left" px={3} py={1} _hover={{ bg: hoverBg }} onClick={() => select(result.symbol, result.type)}>
+              <Text as="span" fontSize="sm" fontWeight="semibold">{result.symbol}</Text>
+              <Text as="span" ml={2} fontSize="xs" color="gray.500">
+                {result.name}{result.exchange ? ` · ${result.exchange}` : ''}
+              </Text>
+            </Box>
+          ))}
+        </VStack>
+      )}
+    </Box>
+  );
+};
+
+export default SymbolSearch;
@@ -0,0 +1,202 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Badge,
+  Box,
+  Button,
+  HStack,
+  Input,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Select,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Textarea,
+  Th,
+  Thead,
+  Tr,
+  useToast,
+} from '@chakra-ui/react';
+import type { Watchlist } from './WatchlistStar';
+
+type ImportFormat = 'csv' | 'tradingview';
+
+interface ImportRow {
+  row: number;
+  input: string;
+  symbol: string | null;
+  status: 'new' | 'existing' | 'duplicate' | 'unknown' | 'invalid';
+  message?: string;
+}
+
+const STATUS_COLORS: Record<ImportRow['status'], string> = {
+  new: 'green',
+  existing: 'gray',
+  duplicate: 'gray',
+  unknown: 'orange',
+  invalid: 'red',
+};
+
+const PLACEHOLDERS: Record<ImportFormat, string> = {
+  csv: 'symbol,note,tags,target_price,type\nAAPL,Earnings in May,tech;core,210,stock',
+  tradingview: 'NASDAQ:AAPL,NASDAQ:MSFT,BINANCE:BTCUSDT',
+};
+
+interface WatchlistImportProps {
+  isOpen: boolean;
+  onClose: () => void;
+  watchlist: Watchlist | null;
+  onImported: (watchlists: Watchlist[]) => void;
+}
+
+/**
+ * Paste or upload symbols for a watchlist, preview how each entry is read, then import the new ones
+ */
+const WatchlistImport: React.FC<WatchlistImportProps> = ({ isOpen, onClose, watchlist, onImported }) => {
+  const [format, setFormat] = useState<ImportFormat>('tradingview');
+  const [text, setText] = useState('');
+  const [preview, setPreview] = useState<ImportRow[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const toast = useToast();
+
+  const additions = preview?.filter((row) => row.status === 'new').length ?? 0;
+
+  const edit = (update: () => void) => {
+    update();
+    setPreview(null); // A preview only stands for the text it was made from
+  };
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) {
+      return;
+    }
+    const content = await file.text();
+    edit(() => {
+      setText(content);
+      setFormat(file.name.toLowerCase().endsWith('.csv') ? 'csv' : 'tradingview');
+    });
+  };
+
+  const submit = async (dryRun: boolean) => {
+    if (!watchlist) {
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/watchlists/${watchlist.id}/import`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ format, text, dryRun }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.message || 'Import failed');
+        return;
+      }
+      if (dryRun) {
+        setPreview(data.rows);
+        return;
+      }
+      onImported(data.watchlists);
+      toast({ title: `Added ${data.added} symbol${data.added === 1 ? '' : 's'} to ${watchlist.name}`, status: 'success', duration: 3000, isClosable: true });
+      setText('');
+      setPreview(null);
+      onClose();
+    } catch (err) {
+      console.error('Error importing watchlist:', err);
+      setError('Import failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="2xl">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>Import into {watchlist?.name}</ModalHeader>
+        <ModalCloseButton />
+        <ModalBody>
+          <HStack spacing={2} mb={2}>
+            <Select w="48" size="sm" value={format} onChange={(e) => edit(() => setFormat(e.target.value as ImportFormat))} aria-label="Import format">
+              <option value="tradingview">TradingView list</option>
+              <option value="csv">CSV</option>
+            </Select>
+            <Input type="file" size="sm" accept=".csv,.txt" p={1} onChange={(e) => loadFile(e.target.files?.[0])} aria-label="Import file" />
+          </HStack>
+          <Textarea
+            size="sm"
+            rows={6}
+            fontFamily="mono"
+            placeholder={PLACEHOLDERS[format]}
+            value={text}
+            onChange={(e) => edit(() => setText(e.target.value))}
+          />
+          <Text mt={1} fontSize="xs" color="gray.500">
+            {format === 'csv'
+              ? 'Columns: symbol, note, tags (separated by ;), target_price and type (stock or crypto, optional). The header row is optional.'
+              : 'EXCHANGE:SYMBOL entries separated by commas or new lines. Crypto pairs like BINANCE:BTCUSDT import as BTC.'}
+          </Text>
+          {error && <Text mt={2} fontSize="sm" color="red.500">{error}</Text>}
+
+          {preview && (
+            <Box mt={4} maxH="64" overflowY="auto">
+              <Text fontSize="sm" mb={2}>
+                {additions} of {preview.length} entries will be added. Unknown symbols are skipped.
+              </Text>
+              <Table size="sm">
+                <Thead>
+                  <Tr>
+                    <Th>#</Th>
+                    <Th>Entry</Th>
+                    <Th>Symbol</Th>
+                    <Th>Status</Th>
+                  </Tr>
+                </Thead>
+                <Tbody>
+                  {preview.map((row) => (
+                    <Tr key={row.row}>
+                      <Td>{row.row}</Td>
+                      <Td fontFamily="mono" maxW="48" isTruncated title={row.input}>{row.input}</Td>
+                      <Td>{row.symbol ?? '—'}</Td>
+                      <Td>
+                        <Badge colorScheme={STATUS_COLORS[row.status]}>{row.status}</Badge>
+                        {row.message && <Text as="span" ml={2} fontSize="xs" color="gray.500">{row.message}</Text>}
+                      </Td>
+                    </Tr>
+                  ))}
+                </Tbody>
+              </Table>
+            </Box>
+          )}
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="ghost" mr={3} onClick={onClose}>
+            Cancel
+          </Button>
+          {preview ? (
+            <Button colorScheme="blue" onClick={() => submit(false)} isLoading={loading} isDisabled={additions === 0}>
+              Import {additions} symbol{additions === 1 ? '' : 's'}
+            </Button>
+          ) : (
+            <Button colorScheme="blue" onClick={() => submit(true)} isLoading={loading} isDisabled={!text.trim()}>
+              Preview
+            </Button>
+          )}
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
+
+export default WatchlistImport;
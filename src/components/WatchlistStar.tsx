@@ -0,0 +1,65 @@
+'use client';
+
+import React from 'react';
+import { Box, Button, Menu, MenuButton, MenuItemOption, MenuList, MenuOptionGroup } from '@chakra-ui/react';
+
+export interface WatchlistItem {
+  symbol: string;
+  type: 'stock' | 'crypto';
+  note: string | null;
+  tags: string[];
+  targetPrice: number | null;
+}
+
+export interface Watchlist {
+  id: number;
+  name: string;
+  items: WatchlistItem[];
+}
+
+interface WatchlistStarProps {
+  symbol: string;
+  type: 'stock' | 'crypto';
+  watchlists: Watchlist[];
+  onToggle: (watchlistId: number, symbol: string, type: 'stock' | 'crypto') => void;
+  compact?: boolean; // Star only, for the mobile cards
+}
+
+/**
+ * Star button listing the user's watchlists; ticking one adds the symbol to it
+ */
+const WatchlistStar: React.FC<WatchlistStarProps> = ({ symbol, type, watchlists, onToggle, compact = false }) => {
+  const listed = watchlists
+    .filter((list) => list.items.some((item) => item.symbol === symbol && item.type === type))
+    .map((list) => String(list.id));
+  const watched = listed.length > 0;
+  const label = watched ? (listed.length === 1 ? `★ ${watchlists.find((list) => String(list.id) === listed[0])?.name}` : `★ ${listed.length} lists`) : '☆ Add to Watchlist';
+
+  return (
+    // Keep clicks from opening the asset modal
+    <Box display="inline-block" onClick={(e) => e.stopPropagation()}>
+      <Menu closeOnSelect={false} isLazy>
+        <MenuButton
+          as={Button}
+          size={compact ? 'xs' : 'sm'}
+          variant={watched ? 'solid' : 'outline'}
+          colorScheme={watched ? 'yellow' : 'gray'}
+          aria-label={`Watchlists for ${symbol}`}
+        >
+          {compact ? (watched ? '★' : '☆') : label}
+        </MenuButton>
+        <MenuList fontSize="sm">
+          <MenuOptionGroup title="Add to" type="checkbox" value={listed}>
+            {watchlists.map((list) => (
+              <MenuItemOption key={list.id} value={String(list.id)} onClick={() => onToggle(list.id, symbol, type)}>
+                {list.name}
+              </MenuItemOption>
+            ))}
+          </MenuOptionGroup>
+        </MenuList>
+      </Menu>
+    </Box>
+  );
+};
+
+export default WatchlistStar;
@@ -0,0 +1,294 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Button,
+  HStack,
+  IconButton,
+  Input,
+  Menu,
+  MenuButton,
+  MenuItem,
+  MenuList,
+  Modal,
+  ModalBody,
+  ModalCloseButton,
+  ModalContent,
+  ModalHeader,
+  ModalOverlay,
+  Select,
+  Table,
+  Tbody,
+  Td,
+  Text,
+  Th,
+  Thead,
+  Tr,
+  useDisclosure,
+  useToast,
+} from '@chakra-ui/react';
+import SymbolSearch from './SymbolSearch';
+import WatchlistImport from './WatchlistImport';
+import type { Watchlist, WatchlistItem } from './WatchlistStar';
+
+interface WatchlistsProps {
+  isOpen: boolean;
+  onClose: () => void;
+  watchlists: Watchlist[];
+  onChange: (watchlists: Watchlist[]) => void;
+}
+
+/**
+ * Manage the logged-in user's watchlists: create, rename and delete lists,
+ * order their symbols and edit each symbol's note, tags and target price
+ */
+const Watchlists: React.FC<WatchlistsProps> = ({ isOpen, onClose, watchlists, onChange }) => {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [newName, setNewName] = useState('');
+  const [rename, setRename] = useState('');
+  const importDisclosure = useDisclosure();
+  const toast = useToast();
+
+  const selected = watchlists.find((list) => list.id === selectedId) ?? watchlists[0] ?? null;
+
+  useEffect(() => {
+    setRename(selected?.name ?? '');
+  }, [selected?.id, selected?.name]);
+
+  // Every watchlist route answers with the updated lists
+  const send = async (url: string, method: string, body: object): Promise<Watchlist[] | null> => {
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast({ title: 'Watchlist not updated', description: data.message, status: 'error', duration: 5000, isClosable: true });
+        return null;
+      }
+      onChange(data);
+      return data;
+    } catch (err) {
+      console.error('Error updating watchlists:', err);
+      return null;
+    }
+  };
+
+  const createList = async () => {
+    const lists = await send('/api/watchlists', 'POST', { name: newName.trim() });
+    if (lists) {
+      setNewName('');
+      setSelectedId(lists[lists.length - 1].id);
+    }
+  };
+
+  const deleteList = async () => {
+    if (selected && (await send('/api/watchlists', 'DELETE', { id: selected.id }))) {
+      setSelectedId(null);
+    }
+  };
+
+  const updateItem = (symbol: string, changes: object) =>
+    selected && send(`/api/watchlists/${selected.id}/items`, 'PATCH', { symbol, ...changes });
+
+  const moveUp = (index: number) => {
+    if (!selected || index === 0) {
+      return;
+    }
+    const symbols = selected.items.map((item) => item.symbol);
+    [symbols[index - 1], symbols[index]] = [symbols[index], symbols[index - 1]];
+    send(`/api/watchlists/${selected.id}/items`, 'PUT', { symbols });
+  };
+
+  // Inputs save when they lose focus, and only if they changed
+  const saveNote = (item: WatchlistItem, value: string) => {
+    if (value.trim() !== (item.note ?? '')) {
+      updateItem(item.symbol, { note: value.trim() || null });
+    }
+  };
+
+  const saveTags = (item: WatchlistItem, value: string) => {
+    const tags = value.split(',').map((tag) => tag.trim()).filter(Boolean);
+    if (tags.join(',') !== item.tags.join(',')) {
+      updateItem(item.symbol, { tags });
+    }
+  };
+
+  const saveTarget = (item: WatchlistItem, value: string) => {
+    const targetPrice = value.trim() ? Number(value) : null;
+    if (targetPrice !== item.targetPrice) {
+      updateItem(item.symbol, { targetPrice });
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="4xl">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader>Watchlists</ModalHeader>
+        <ModalCloseButton />
+        <ModalBody pb={6}>
+          <HStack spacing={2} mb={4} flexWrap="wrap">
+            <Select
+              w="48"
+              size="sm"
+              value={selected?.id ?? ''}
+              onChange={(e) => setSelectedId(Number(e.target.value))}
+              aria-label="Watchlist"
+            >
+              {watchlists.map((list) => (
+                <option key={list.id} value={list.id}>
+                  {list.name} ({list.items.length})
+                </option>
+              ))}
+            </Select>
+            <Input w="40" size="sm" value={rename} maxLength={100} onChange={(e) => setRename(e.target.value)} aria-label="List name" />
+            <Button
+              size="sm"
+              isDisabled={!selected || !rename.trim() || rename.trim() === selected.name}
+              onClick={() => selected && send('/api/watchlists', 'PATCH', { id: selected.id, name: rename.trim() })}
+            >
+              Rename
+            </Button>
+            <Button size="sm" colorScheme="red" variant="outline" isDisabled={!selected} onClick={deleteList}>
+              Delete list
+            </Button>
+            <SymbolSearch
+              isDisabled={!selected}
+              onSelect={(symbol, type) => selected && send(`/api/watchlists/${selected.id}/items`, 'POST', { symbol, type })}
+            />
+            <Button size="sm" isDisabled={!selected} onClick={importDisclosure.onOpen}>
+              Import…
+            </Button>
+            <Menu>
+              <MenuButton as={Button} size="sm" isDisabled={!selected}>
+                Export
+              </MenuButton>
+              <MenuList fontSize="sm">
+                <MenuItem as="a" href={`/api/watchlists/${selected?.id}/export?format=csv`} download>
+                  CSV
+                </MenuItem>
+                <MenuItem as="a" href={`/api/watchlists/${selected?.id}/export?format=tradingview`} download>
+                  TradingView list
+                </MenuItem>
+              </MenuList>
+            </Menu>
+            <Input
+              w="40"
+              size="sm"
+              placeholder="New list name"
+              value={newName}
+              maxLength={100}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && newName.trim()) createList();
+              }}
+            />
+            <Button size="sm" colorScheme="blue" isDisabled={!newName.trim()} onClick={createList}>
+              New list
+            </Button>
+          </HStack>
+
+          {!selected || selected.items.length === 0 ? (
+            <Text fontSize="sm" color="gray.500">
+              No symbols yet. Search for one above, use the ☆ button on the dashboard, or Import… a list.
+            </Text>
+          ) : (
+            <Table size="sm">
+              <Thead>
+                <Tr>
+                  <Th>Symbol</Th>
+                  <Th>Note</Th>
+                  <Th>Tags</Th>
+                  <Th>Target</Th>
+                  <Th>Move to</Th>
+                  <Th />
+                </Tr>
+              </Thead>
+              <Tbody>
+                {selected.items.map((item, index) => (
+                  // Keyed on the values too, so the inputs reset when the list reloads
+                  <Tr key={`${item.symbol}:${item.note}:${item.tags.join(',')}:${item.targetPrice}`}>
+                    <Td fontWeight="semibold">{item.symbol}</Td>
+                    <Td>
+                      <Input size="sm" defaultValue={item.note ?? ''} maxLength={500} onBlur={(e) => saveNote(item, e.target.value)} aria-label={`Note for ${item.symbol}`} />
+                    </Td>
+                    <Td>
+                      <Input
+                        size="sm"
+                        placeholder="comma, separated"
+                        defaultValue={item.tags.join(', ')}
+                        onBlur={(e) => saveTags(item, e.target.value)}
+                        aria-label={`Tags for ${item.symbol}`}
+                      />
+                    </Td>
+                    <Td>
+                      <Input
+                        size="sm"
+                        w="24"
+                        type="number"
+                        min={0}
+                        step="any"
+                        defaultValue={item.targetPrice ?? ''}
+                        onBlur={(e) => saveTarget(item, e.target.value)}
+                        aria-label={`Target price for ${item.symbol}`}
+                      />
+                    </Td>
+                    <Td>
+                      <Select
+                        size="sm"
+                        value=""
+                        onChange={(e) => updateItem(item.symbol, { moveTo: Number(e.target.value) })}
+                        aria-label={`Move ${item.symbol}`}
+                      >
+                        <option value="">—</option>
+                        {watchlists
+                          .filter((list) => list.id !== selected.id)
+                          .map((list) => (
+                            <option key={list.id} value={list.id}>
+                              {list.name}
+                            </option>
+                          ))}
+                      </Select>
+                    </Td>
+                    <Td>
+                      <HStack spacing={1}>
+                        <IconButton size="xs" aria-label={`Move ${item.symbol} up`} icon={<span>↑</span>} isDisabled={index === 0} onClick={() => moveUp(index)} />
+                        <IconButton
+                          size="xs"
+                          aria-label={`Move ${item.symbol} down`}
+                          icon={<span>↓</span>}
+                          isDisabled={index === selected.items.length - 1}
+                          onClick={() => moveUp(index + 1)}
+                        />
+                        <IconButton
+                          size="xs"
+                          variant="ghost"
+                          colorScheme="red"
+                          aria-label={`Remove ${item.symbol}`}
+                          icon={<span>✕</span>}
+                          onClick={() => send(`/api/watchlists/${selected.id}/items`, 'DELETE', { symbol: item.symbol })}
+                        />
+                      </HStack>
+                    </Td>
+                  </Tr>
+                ))}
+              </Tbody>
+            </Table>
+          )}
+
+          <WatchlistImport
+            isOpen={importDisclosure.isOpen}
+            onClose={importDisclosure.onClose}
+            watchlist={selected}
+            onImported={onChange}
+          />
+        </ModalBody>
+      </ModalContent>
+    </Modal>
+  );
+};
+
+export default Watchlists;
@@ -0,0 +1,369 @@
+/**
+ * Alerts
+ * User-defined rules on Supertrend flips and crosses, checked after every
+ * scheduled scan. Fired alerts go to the in-app inbox and, per rule, to a
+ * webhook and/or the user's email.
+ */
+
+import { sql } from '@vercel/postgres';
+import type { AssetType } from './providers';
+import type { ProcessedAsset } from './scanner';
+import type { Timeframe } from './resample';
+import type { SupertrendBar } from './signalEvents';
+import { sendAlertEmail, sendWebhook, type AlertNotification } from './notifications';
+
+export type AlertCondition = 'st_buy' | 'st_sell' | 'st_flip' | 'cross_above' | 'cross_below';
+
+export const ALERT_CONDITIONS: Record<AlertCondition, string> = {
+  st_buy: 'Supertrend flips to buy',
+  st_sell: 'Supertrend flips to sell',
+  st_flip: 'Supertrend flips',
+  cross_above: 'Price crosses above Supertrend',
+  cross_below: 'Price crosses below Supertrend'
+};
+
+export interface AlertRule {
+  id: number;
+  userId: number;
+  symbol: string | null; // null watches every symbol on the user's watchlists
+  timeframe: Timeframe;
+  condition: AlertCondition;
+  email: boolean;
+  webhookUrl: string | null;
+  active: boolean;
+  createdAt: string;
+}
+
+export interface Alert {
+  id: number;
+  ruleId: number | null;
+  symbol: string;
+  timeframe: Timeframe;
+  condition: AlertCondition;
+  message: string;
+  price: number;
+  supertrendValue: number;
+  barTime: string;
+  readAt: string | null;
+  createdAt: string;
+}
+
+export type NewAlertRule = Pick<AlertRule, 'symbol' | 'timeframe' | 'condition' | 'email' | 'webhookUrl'>;
+
+function toRule(row: Record<string, unknown>): AlertRule {
+  return {
+    id: row.id as number,
+    userId: row.user_id as number,
+    symbol: (row.symbol as string | null) ?? null,
+    timeframe: row.timeframe as Timeframe,
+    condition: row.condition as AlertCondition,
+    email: row.email as boolean,
+    webhookUrl: (row.webhook_url as string | null) ?? null,
+    active: row.active as boolean,
+    createdAt: new Date(row.created_at as string).toISOString()
+  };
+}
+
+function toAlert(row: Record<string, unknown>): Alert {
+  return {
+    id: row.id as number,
+    ruleId: (row.rule_id as number | null) ?? null,
+    symbol: row.symbol as string,
+    timeframe: row.timeframe as Timeframe,
+    condition: row.condition as AlertCondition,
+    message: row.message as string,
+    price: row.price as number,
+    supertrendValue: row.supertrend_value as number,
+    barTime: row.bar_time as string,
+    readAt: row.read_at ? new Date(row.read_at as string).toISOString() : null,
+    createdAt: new Date(row.created_at as string).toISOString()
+  };
+}
+
+export async function listAlertRules(userId: number): Promise<AlertRule[]> {
+  const { rows } = await sql`
+    SELECT id, user_id, symbol, timeframe, condition, email, webhook_url, active, created_at
+    FROM alert_rules
+    WHERE user_id = ${userId}
+    ORDER BY created_at DESC
+  `;
+  return rows.map(toRule);
+}
+
+export async function createAlertRule(userId: number, rule: NewAlertRule): Promise<AlertRule> {
+  const { rows } = await sql`
+    INSERT INTO alert_rules (user_id, symbol, timeframe, condition, email, webhook_url)
+    VALUES (${userId}, ${rule.symbol}, ${rule.timeframe}, ${rule.condition}, ${rule.email}, ${rule.webhookUrl})
+    RETURNING id, user_id, symbol, timeframe, condition, email, webhook_url, active, created_at
+  `;
+  return toRule(rows[0]);
+}
+
+export async function setAlertRuleActive(userId: number, id: number, active: boolean): Promise<boolean> {
+  const { rowCount } = await sql`
+    UPDATE alert_rules SET active = ${active} WHERE id = ${id} AND user_id = ${userId}
+  `;
+  return (rowCount ?? 0) > 0;
+}
+
+export async function deleteAlertRule(userId: number, id: number): Promise<boolean> {
+  const { rowCount } = await sql`
+    DELETE FROM alert_rules WHERE id = ${id} AND user_id = ${userId}
+  `;
+  return (rowCount ?? 0) > 0;
+}
+
+/**
+ * A user's fired alerts, newest first
+ */
+export async function listAlerts(userId: number, unreadOnly = false, limit = 50): Promise<{ alerts: Alert[]; unread: number }> {
+  const { rows } = await sql`
+    SELECT id, rule_id, symbol, timeframe, condition, message, price, supertrend_value, bar_time, read_at, created_at
+    FROM alerts
+    WHERE user_id = ${userId} AND (${!unreadOnly} OR read_at IS NULL)
+    ORDER BY created_at DESC
+    LIMIT ${limit}
+  `;
+  const { rows: counts } = await sql`
+    SELECT COUNT(*)::int AS unread FROM alerts WHERE user_id = ${userId} AND read_at IS NULL
+  `;
+  return { alerts: rows.map(toAlert), unread: counts[0].unread };
+}
+
+/**
+ * Mark the given alerts read, or all of them when ids is null
+ */
+export async function markAlertsRead(userId: number, ids: number[] | null): Promise<number> {
+  const { rowCount } = ids === null
+    ? await sql`UPDATE alerts SET read_at = NOW() WHERE user_id = ${userId} AND read_at IS NULL`
+    : await sql.query(
+      'UPDATE alerts SET read_at = NOW() WHERE user_id = $1 AND read_at IS NULL AND id = ANY($2::int[])',
+      [userId, ids]
+    );
+  return rowCount ?? 0;
+}
+
+type CheckedRule = AlertRule & { userEmail: string; lastCheckedAt: string };
+
+interface PendingAlert {
+  rule: CheckedRule;
+  notification: AlertNotification;
+}
+
+/**
+ * Flips of a Supertrend series since a rule was last checked, from the bar that
+ * was still forming then, as its flip may only have shown up since. Flips
+ * already fired for a bar are dropped by the alerts table's unique key.
+ */
+function flipsSince(bars: SupertrendBar[], lastCheckedAt: string): { bar: SupertrendBar; signal: 'buy' | 'sell' }[] {
+  const checked = Date.parse(lastCheckedAt);
+  const newer = bars.findIndex(bar => Date.parse(bar.time) > checked);
+  const flips: { bar: SupertrendBar; signal: 'buy' | 'sell' }[] = [];
+  for (let i = Math.max(1, (newer === -1 ? bars.length : newer) - 1); i < bars.length; i++) {
+    if (bars[i].direction !== bars[i - 1].direction) {
+      flips.push({ bar: bars[i], signal: bars[i].direction === 'up' ? 'buy' : 'sell' });
+    }
+  }
+  return flips;
+}
+
+/**
+ * Check a rule against one scanned asset. Flips fire on every bar the
+ * Supertrend turned on since the rule was last checked, read off bars (the
+ * rule's timeframe of the series the asset was scanned with); crosses fire
+ * when the price moves to the other side of the line since the previous scan.
+ */
+function checkRule(
+  rule: CheckedRule,
+  asset: ProcessedAsset,
+  bars: SupertrendBar[] | undefined,
+  previousSide: string | undefined
+): { fired: Omit<AlertNotification, 'firedAt'>[]; side: 'above' | 'below' | null } {
+  const supertrend = asset.supertrend?.[rule.timeframe];
+  if (!supertrend || asset.price === undefined) {
+    return { fired: [], side: null };
+  }
+
+  const side = asset.price > supertrend.value ? 'above' : 'below';
+  const base = { symbol: asset.symbol, timeframe: rule.timeframe, condition: rule.condition };
+
+  switch (rule.condition) {
+    case 'st_buy':
+    case 'st_sell':
+    case 'st_flip': {
+      const fired = flipsSince(bars ?? [], rule.lastCheckedAt)
+        .filter(({ signal }) => rule.condition === 'st_flip' || signal === (rule.condition === 'st_buy' ? 'buy' : 'sell'))
+        .map(({ bar, signal }) => ({
+          ...base,
+          message: `${asset.symbol} ${rule.timeframe} Supertrend flipped to ${signal}`,
+          price: bar.close,
+          supertrendValue: bar.value,
+          barTime: bar.time
+        }));
+      return { fired, side };
+    }
+    case 'cross_above':
+    case 'cross_below': {
+      const wanted = rule.condition === 'cross_above' ? 'above' : 'below';
+      if (!previousSide || previousSide === side || side !== wanted) {
+        return { fired: [], side };
+      }
+      const message = `${asset.symbol} crossed ${wanted} its ${rule.timeframe} Supertrend at ${asset.price}`;
+      return {
+        fired: [{ ...base, message, price: asset.price, supertrendValue: supertrend.value, barTime: new Date().toISOString() }],
+        side
+      };
+    }
+  }
+}
+
+// Watchlist items carry their type; rules hold tickers alone, and like the symbol
+// registry a stock wins over a coin with the same ticker
+function findAsset(assets: Map<string, ProcessedAsset>, symbol: string, type: AssetType | null = null): ProcessedAsset | undefined {
+  return type ? assets.get(`${type}:${symbol}`) : assets.get(`stock:${symbol}`) ?? assets.get(`crypto:${symbol}`);
+}
+
+async function deliver({ rule, notification }: PendingAlert): Promise<void> {
+  if (rule.webhookUrl) {
+    try {
+      await sendWebhook(rule.webhookUrl, notification);
+    } catch (error) {
+      console.warn(`Alert webhook for rule ${rule.id} failed:`, error);
+    }
+  }
+  if (rule.email) {
+    try {
+      const sent = await sendAlertEmail(rule.userEmail, notification);
+      if (!sent) {
+        console.warn(`SMTP not configured, skipped alert email for rule ${rule.id}`);
+      }
+    } catch (error) {
+      console.warn(`Alert email for rule ${rule.id} failed:`, error);
+    }
+  }
+}
+
+/**
+ * Evaluate every active rule against freshly scanned assets, store the alerts
+ * that fired and send them out. Each flip fires once per rule and bar.
+ * userAssets holds the assets as users with Supertrend settings of their own
+ * see them; their rules are checked against those, everyone else's against the
+ * shared scan. supertrendSeries gives an asset's Supertrend of every bar, as
+ * scanned for the given user (null for the shared scan).
+ * Returns the number of alerts fired.
+ */
+export async function evaluateAlerts(
+  assets: ProcessedAsset[],
+  userAssets: Map<number, ProcessedAsset[]>,
+  supertrendSeries: (asset: ProcessedAsset, userId: number | null) => Partial<Record<Timeframe, SupertrendBar[]>>
+): Promise<number> {
+  const checkedAt = new Date().toISOString();
+  let rules: CheckedRule[];
+  let watchlists: Map<number, Map<string, AssetType>>;
+  let sides: Map<string, string>;
+  try {
+    const { rows } = await sql`
+      SELECT r.id, r.user_id, r.symbol, r.timeframe, r.condition, r.email, r.webhook_url, r.active, r.created_at,
+             r.last_checked_at, u.email AS user_email
+      FROM alert_rules r JOIN users u ON u.id = r.user_id
+      WHERE r.active
+    `;
+    rules = rows.map(row => ({
+      ...toRule(row),
+      userEmail: row.user_email,
+      lastCheckedAt: new Date(row.last_checked_at).toISOString()
+    }));
+    if (rules.length === 0) {
+      return 0;
+    }
+
+    const { rows: watched } = await sql`
+      SELECT w.user_id, i.symbol, i.asset_type FROM watchlist_items i JOIN watchlists w ON w.id = i.watchlist_id
+    `;
+    watchlists = new Map();
+    watched.forEach(({ user_id, symbol, asset_type }) => {
+      watchlists.set(user_id, (watchlists.get(user_id) ?? new Map()).set(symbol, asset_type));
+    });
+
+    const { rows: state } = await sql`SELECT rule_id, symbol, side FROM alert_cross_state`;
+    sides = new Map(state.map(row => [`${row.rule_id}:${row.symbol}`, row.side]));
+  } catch (error) {
+    console.warn('Alert tables unavailable, skipping alert evaluation:', error);
+    return 0;
+  }
+
+  const byKey = (list: ProcessedAsset[]) => new Map(list.map(asset => [`${asset.type}:${asset.symbol}`, asset]));
+  const scanned = byKey(assets);
+  const ownScans = new Map(Array.from(userAssets, ([userId, own]) => [userId, byKey(own)]));
+
+  const pending: PendingAlert[] = [];
+  const crossUpdates: { ruleId: number; symbol: string; side: string }[] = [];
+  // Rules with a symbol missing from the scan keep their last check, so its flips are caught up on later
+  const checkedRules: number[] = [];
+
+  rules.forEach(rule => {
+    const symbols: [string, AssetType | null][] = rule.symbol ? [[rule.symbol, null]] : Array.from(watchlists.get(rule.userId) ?? []);
+    const scan = ownScans.get(rule.userId) ?? scanned;
+    let complete = true;
+    symbols.forEach(([symbol, type]) => {
+      const asset = findAsset(scan, symbol, type);
+      if (!asset) {
+        complete = false;
+        return;
+      }
+      const bars = supertrendSeries(asset, ownScans.has(rule.userId) ? rule.userId : null)[rule.timeframe];
+      const { fired, side } = checkRule(rule, asset, bars, sides.get(`${rule.id}:${symbol}`));
+      if (side && (rule.condition === 'cross_above' || rule.condition === 'cross_below')) {
+        crossUpdates.push({ ruleId: rule.id, symbol, side });
+      }
+      fired.forEach(notification => {
+        pending.push({ rule, notification: { ...notification, firedAt: new Date().toISOString() } });
+      });
+    });
+    if (complete) {
+      checkedRules.push(rule.id);
+    }
+  });
+
+  let firedCount = 0;
+  for (const alert of pending) {
+    const { rule, notification } = alert;
+    try {
+      // The unique (rule, symbol, bar) key stops a flip from firing on every scan until the next bar
+      const { rows } = await sql`
+        INSERT INTO alerts (rule_id, user_id, symbol, timeframe, condition, message, price, supertrend_value, bar_time)
+        VALUES (${rule.id}, ${rule.userId}, ${notification.symbol}, ${notification.timeframe}, ${notification.condition},
+                ${notification.message}, ${notification.price}, ${notification.supertrendValue}, ${notification.barTime})
+        ON CONFLICT (rule_id, symbol, bar_time) DO NOTHING
+        RETURNING id
+      `;
+      if (rows.length > 0) {
+        firedCount++;
+        await deliver(alert);
+      }
+    } catch (error) {
+      console.error(`Failed to store alert for rule ${rule.id}:`, error);
+    }
+  }
+
+  for (const { ruleId, symbol, side } of crossUpdates) {
+    try {
+      await sql`
+        INSERT INTO alert_cross_state (rule_id, symbol, side)
+        VALUES (${ruleId}, ${symbol}, ${side})
+        ON CONFLICT (rule_id, symbol) DO UPDATE SET side = EXCLUDED.side
+      `;
+    } catch (error) {
+      console.error(`Failed to update cross state for rule ${ruleId}:`, error);
+    }
+  }
+
+  try {
+    // sql.query, as the tagged template doesn't take array values
+    await sql.query('UPDATE alert_rules SET last_checked_at = $1 WHERE id = ANY($2::int[])', [checkedAt, checkedRules]);
+  } catch (error) {
+    console.error('Failed to update when alert rules were last checked:', error);
+  }
+
+  return firedCount;
+}
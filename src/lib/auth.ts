@@ -0,0 +1,19 @@
+import { cookies } from 'next/headers';
+import jwt from 'jsonwebtoken';
+
+/**
+ * Id of the logged-in user from the session cookie, or null when signed out
+ */
+export async function getUserIdFromToken(): Promise<number | null> {
+  const cookieStore = await cookies();
+  const token = cookieStore.get('token')?.value;
+  if (!token) {
+    return null;
+  }
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'your-secret-key') as { userId: number };
+    return decoded.userId;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * Supertrend Backtester
+ * Replays a candle series, trading each Supertrend flip, and reports trades,
+ * performance metrics and the equity curve
+ */
+
+import { calculateSupertrend, type OHLCData, type SupertrendConfig } from './indicators';
+
+export type BacktestMode = 'long-only' | 'long-short';
+
+export interface BacktestConfig {
+  supertrend: SupertrendConfig;
+  mode: BacktestMode;
+  initialCapital: number;
+  commission: number; // Fraction of traded value paid on every fill, e.g. 0.001 = 0.1%
+  slippage: number;   // Adverse price move on every fill, as a fraction of price
+}
+
+export interface BacktestTrade {
+  direction: 'long' | 'short';
+  entryTime: string;
+  entryPrice: number;
+  exitTime: string;
+  exitPrice: number;
+  quantity: number;
+  pnl: number;        // After commission
+  returnPct: number;  // pnl as a percentage of the capital committed
+  bars: number;
+  open: boolean;      // Still open at the end; closed at the last close
+}
+
+export interface EquityPoint {
+  time: string;
+  equity: number;
+}
+
+export interface BacktestMetrics {
+  initialCapital: number;
+  finalEquity: number;
+  totalReturnPct: number;
+  cagrPct: number | null;       // null when the test covers no time or ends wiped out
+  trades: number;
+  winRatePct: number | null;    // null without trades
+  profitFactor: number | null;  // Gross profit / gross loss; null without losing trades
+  maxDrawdownPct: number;
+  commissionPaid: number;
+}
+
+export interface BacktestResult {
+  config: BacktestConfig;
+  trades: BacktestTrade[];
+  equityCurve: EquityPoint[];
+  metrics: BacktestMetrics;
+}
+
+export const DEFAULT_BACKTEST_CONFIG: BacktestConfig = {
+  supertrend: { atrPeriod: 10, factor: 3.0 },
+  mode: 'long-only',
+  initialCapital: 10000,
+  commission: 0.001,
+  slippage: 0.0005
+};
+
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+interface Position {
+  direction: 'long' | 'short';
+  quantity: number;
+  entryIndex: number;
+  entryPrice: number;
+  entryCost: number; // Capital committed including the entry commission
+}
+
+/**
+ * Run a Supertrend strategy over a series. Signals fire on a bar's close and
+ * are filled at the next bar's open.
+ */
+export function runBacktest(ohlcData: OHLCData[], options: Partial<BacktestConfig> = {}): BacktestResult {
+  const config: BacktestConfig = { ...DEFAULT_BACKTEST_CONFIG, ...options };
+  const { mode, initialCapital, commission, slippage } = config;
+
+  const supertrend = calculateSupertrend(ohlcData, config.supertrend);
+  const firstIndex = ohlcData.length - supertrend.length;
+
+  // Mutated by the fills below
+  const account: { cash: number; position: Position | null; commissionPaid: number } = {
+    cash: initialCapital,
+    position: null,
+    commissionPaid: 0
+  };
+  const trades: BacktestTrade[] = [];
+  const equityCurve: EquityPoint[] = [];
+
+  const openPosition = (direction: 'long' | 'short', index: number, price: number) => {
+    const fillPrice = direction === 'long' ? price * (1 + slippage) : price * (1 - slippage);
+    // Commit all equity, leaving room for the commission
+    const quantity = account.cash / (fillPrice * (1 + commission));
+    const fee = quantity * fillPrice * commission;
+    const entryCost = quantity * fillPrice + fee;
+    account.commissionPaid += fee;
+    account.position = { direction, quantity, entryIndex: index, entryPrice: fillPrice, entryCost };
+    account.cash -= entryCost;
+  };
+
+  const closePosition = (index: number, price: number, open: boolean) => {
+    if (!account.position) {
+      return;
+    }
+    const { direction, quantity, entryIndex, entryPrice, entryCost } = account.position;
+    const fillPrice = open ? price : direction === 'long' ? price * (1 - slippage) : price * (1 + slippage);
+    const fee = open ? 0 : quantity * fillPrice * commission;
+    account.commissionPaid += fee;
+
+    // A short returns its margin (the entry value) plus the fall in price
+    const proceeds = direction === 'long'
+      ? quantity * fillPrice - fee
+      : quantity * entryPrice + quantity * (entryPrice - fillPrice) - fee;
+    const pnl = proceeds - entryCost;
+    account.cash += proceeds;
+
+    trades.push({
+      direction,
+      entryTime: ohlcData[entryIndex].time,
+      entryPrice,
+      exitTime: ohlcData[index].time,
+      exitPrice: fillPrice,
+      quantity,
+      pnl,
+      returnPct: (pnl / entryCost) * 100,
+      bars: index - entryIndex,
+      open
+    });
+    account.position = null;
+  };
+
+  const markToMarket = (close: number): number => {
+    if (!account.position) {
+      return account.cash;
+    }
+    const { direction, quantity, entryPrice } = account.position;
+    return direction === 'long'
+      ? account.cash + quantity * close
+      : account.cash + quantity * entryPrice + quantity * (entryPrice - close);
+  };
+
+  for (let i = firstIndex; i < ohlcData.length; i++) {
+    // Act on the previous bar's signal at this bar's open
+    const previous = i > firstIndex ? supertrend[i - 1 - firstIndex] : null;
+    const open = ohlcData[i].open;
+
+    if (previous?.signal === 'buy') {
+      if (account.position?.direction === 'short') {
+        closePosition(i, open, false);
+      }
+      if (!account.position) {
+        openPosition('long', i, open);
+      }
+    } else if (previous?.signal === 'sell') {
+      if (account.position?.direction === 'long') {
+        closePosition(i, open, false);
+      }
+      if (!account.position && mode === 'long-short') {
+        openPosition('short', i, open);
+      }
+    }
+
+    equityCurve.push({ time: ohlcData[i].time, equity: markToMarket(ohlcData[i].close) });
+  }
+
+  // Report a position still open at the end at the last close
+  const lastIndex = ohlcData.length - 1;
+  closePosition(lastIndex, ohlcData[lastIndex].close, true);
+
+  return { config, trades, equityCurve, metrics: calculateMetrics(trades, equityCurve, initialCapital, account.commissionPaid) };
+}
+
+function calculateMetrics(
+  trades: BacktestTrade[],
+  equityCurve: EquityPoint[],
+  initialCapital: number,
+  commissionPaid: number
+): BacktestMetrics {
+  const finalEquity = equityCurve.length > 0 ? equityCurve[equityCurve.length - 1].equity : initialCapital;
+
+  const wins = trades.filter(trade => trade.pnl > 0);
+  const grossProfit = wins.reduce((sum, trade) => sum + trade.pnl, 0);
+  const grossLoss = trades.filter(trade => trade.pnl < 0).reduce((sum, trade) => sum - trade.pnl, 0);
+
+  let peak = initialCapital;
+  let maxDrawdown = 0;
+  equityCurve.forEach(({ equity }) => {
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, (peak - equity) / peak);
+  });
+
+  let cagrPct: number | null = null;
+  if (equityCurve.length > 1 && finalEquity > 0) {
+    const years = (Date.parse(equityCurve[equityCurve.length - 1].time) - Date.parse(equityCurve[0].time)) / MS_PER_YEAR;
+    if (years > 0) {
+      cagrPct = (Math.pow(finalEquity / initialCapital, 1 / years) - 1) * 100;
+    }
+  }
+
+  return {
+    initialCapital,
+    finalEquity,
+    totalReturnPct: (finalEquity / initialCapital - 1) * 100,
+    cagrPct,
+    trades: trades.length,
+    winRatePct: trades.length > 0 ? (wins.length / trades.length) * 100 : null,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+    maxDrawdownPct: maxDrawdown * 100,
+    commissionPaid
+  };
+}
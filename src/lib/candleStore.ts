@@ -0,0 +1,159 @@
+/**
+ * Candle Store
+ * Persists vendor candles in Postgres so each scan only fetches bars newer than the last stored one
+ */
+
+import { sql } from '@vercel/postgres';
+import type { OHLCData } from './indicators';
+import type { AssetType, MarketDataProvider, SourceInterval } from './providers';
+
+// How long a series is considered fresh after a fetch; scans within this window read the store only
+const SYNC_INTERVAL_MS: Record<SourceInterval, number> = {
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '1D': 6 * 60 * 60 * 1000
+};
+
+// Bars loaded per series, enough for the longest resampled timeframe
+const LOAD_LIMIT: Record<SourceInterval, number> = {
+  '15m': 3000,
+  '1h': 2000,
+  '1D': 1000
+};
+
+// Rows written per INSERT
+const UPSERT_CHUNK = 1000;
+
+interface SeriesKey {
+  assetType: AssetType;
+  symbol: string;
+  interval: SourceInterval;
+}
+
+// Daily candles carry "YYYY-MM-DD" dates and are stored at midnight UTC
+function toStoredTime(time: string, interval: SourceInterval): string {
+  return interval === '1D' ? `${time}T00:00:00.000Z` : new Date(time).toISOString();
+}
+
+function fromStoredTime(time: Date, interval: SourceInterval): string {
+  const iso = time.toISOString();
+  return interval === '1D' ? iso.split('T')[0] : iso;
+}
+
+/**
+ * Most recent stored candles for a series, oldest first
+ */
+export async function loadCandles({ assetType, symbol, interval }: SeriesKey, limit = LOAD_LIMIT[interval]): Promise<OHLCData[]> {
+  const { rows } = await sql`
+    SELECT time, open, high, low, close, volume FROM (
+      SELECT time, open, high, low, close, volume
+      FROM candles
+      WHERE asset_type = ${assetType} AND symbol = ${symbol} AND bar_interval = ${interval}
+      ORDER BY time DESC
+      LIMIT ${limit}
+    ) latest
+    ORDER BY time
+  `;
+  return rows.map(row => ({
+    time: fromStoredTime(new Date(row.time), interval),
+    open: row.open,
+    high: row.high,
+    low: row.low,
+    close: row.close,
+    volume: row.volume
+  }));
+}
+
+/**
+ * Insert candles, overwriting bars already stored at the same time (e.g. a partial last bar)
+ */
+export async function saveCandles({ assetType, symbol, interval }: SeriesKey, candles: OHLCData[]): Promise<void> {
+  for (let start = 0; start < candles.length; start += UPSERT_CHUNK) {
+    const chunk = candles.slice(start, start + UPSERT_CHUNK);
+    const times = chunk.map(candle => toStoredTime(candle.time, interval));
+
+    await sql.query(
+      `INSERT INTO candles (asset_type, symbol, bar_interval, time, open, high, low, close, volume)
+       SELECT $1, $2, $3, t.*
+       FROM unnest($4::timestamptz[], $5::float8[], $6::float8[], $7::float8[], $8::float8[], $9::float8[])
+         AS t(time, open, high, low, close, volume)
+       ON CONFLICT (asset_type, symbol, bar_interval, time) DO UPDATE SET
+         open = EXCLUDED.open, high = EXCLUDED.high, low = EXCLUDED.low,
+         close = EXCLUDED.close, volume = EXCLUDED.volume`,
+      [
+        assetType,
+        symbol,
+        interval,
+        times,
+        chunk.map(candle => candle.open),
+        chunk.map(candle => candle.high),
+        chunk.map(candle => candle.low),
+        chunk.map(candle => candle.close),
+        chunk.map(candle => candle.volume)
+      ]
+    );
+  }
+}
+
+async function getSyncState({ assetType, symbol, interval }: SeriesKey): Promise<{ latest: string | null; syncedAt: Date | null }> {
+  const { rows } = await sql`
+    SELECT
+      (SELECT MAX(time) FROM candles
+       WHERE asset_type = ${assetType} AND symbol = ${symbol} AND bar_interval = ${interval}) AS latest,
+      (SELECT synced_at FROM candle_sync
+       WHERE asset_type = ${assetType} AND symbol = ${symbol} AND bar_interval = ${interval}) AS synced_at
+  `;
+  const { latest, synced_at } = rows[0];
+  return {
+    latest: latest ? new Date(latest).toISOString() : null,
+    syncedAt: synced_at ? new Date(synced_at) : null
+  };
+}
+
+async function markSynced({ assetType, symbol, interval }: SeriesKey): Promise<void> {
+  await sql`
+    INSERT INTO candle_sync (asset_type, symbol, bar_interval, synced_at)
+    VALUES (${assetType}, ${symbol}, ${interval}, NOW())
+    ON CONFLICT (asset_type, symbol, bar_interval) DO UPDATE SET synced_at = EXCLUDED.synced_at
+  `;
+}
+
+/**
+ * Candles for a symbol, served from the store and topped up from the provider.
+ *
+ * Only bars from the last stored one onwards are requested, so the last
+ * (possibly still forming) bar is refreshed. If the vendor fails, whatever
+ * is already stored is returned. Without a database the provider is called directly.
+ */
+export async function getCandles(provider: MarketDataProvider, symbol: string, interval: SourceInterval): Promise<OHLCData[]> {
+  if (provider.offline) {
+    return provider.fetchOHLC(symbol, interval);
+  }
+
+  const key: SeriesKey = { assetType: provider.assetType, symbol: symbol.toUpperCase(), interval };
+
+  let state: { latest: string | null; syncedAt: Date | null };
+  try {
+    state = await getSyncState(key);
+  } catch (error) {
+    console.warn('Candle store unavailable, fetching from provider:', error);
+    return provider.fetchOHLC(symbol, interval);
+  }
+
+  const fresh = state.syncedAt && Date.now() - state.syncedAt.getTime() < SYNC_INTERVAL_MS[interval];
+  if (!fresh) {
+    try {
+      const candles = await provider.fetchOHLC(symbol, interval, state.latest ? { since: state.latest } : undefined);
+      await saveCandles(key, candles);
+      await markSynced(key);
+      console.log(`Stored ${candles.length} ${interval} candles for ${key.symbol}`);
+    } catch (error) {
+      if (!state.latest) {
+        throw error;
+      }
+      console.warn(`Top-up of ${interval} candles for ${key.symbol} failed, serving stored candles:`, error);
+    }
+  }
+
+  return loadCandles(key);
+}
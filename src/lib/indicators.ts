@@ -1,6 +1,7 @@
 /**
  * Technical Indicators Library
- * Implements various trading indicators including Supertrend
+ * Implements various trading indicators including Supertrend, RSI, MACD,
+ * moving averages, Bollinger Bands, ADX/DMI and Parabolic SAR
  */
 
 export interface OHLCData {
@@ -13,6 +14,7 @@ export interface OHLCData {
 }
 
 export interface SupertrendResult {
+  time: string;
   value: number;
   direction: 'up' | 'down';
   signal: 'buy' | 'sell' | 'hold';
@@ -21,9 +23,84 @@ export interface SupertrendResult {
   basicLowerBand: number;
 }
 
+// Moving average applied to true ranges; 'rma' is Wilder's smoothing
+export type AtrSmoothing = 'rma' | 'sma' | 'ema' | 'wma';
+export const ATR_SMOOTHINGS: AtrSmoothing[] = ['rma', 'sma', 'ema', 'wma'];
+
+// Price the Supertrend bands are centred on
+export type SupertrendSource = 'hl2' | 'hlc3' | 'ohlc4' | 'close';
+export const SUPERTREND_SOURCES: SupertrendSource[] = ['hl2', 'hlc3', 'ohlc4', 'close'];
+
 export interface SupertrendConfig {
   atrPeriod: number;
   factor: number;
+  source?: SupertrendSource;      // Defaults to 'hl2'
+  atrSmoothing?: AtrSmoothing;    // Defaults to 'rma'
+}
+
+export interface IndicatorPoint {
+  time: string;
+  value: number;
+}
+
+export interface MACDPoint {
+  time: string;
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+export interface MACDConfig {
+  fastPeriod: number;
+  slowPeriod: number;
+  signalPeriod: number;
+}
+
+export interface BollingerPoint {
+  time: string;
+  middle: number;
+  upper: number;
+  lower: number;
+}
+
+export interface BollingerConfig {
+  period: number;
+  stdDev: number;
+}
+
+export interface ADXResult {
+  time: string;
+  adx: number;
+  plusDI: number;
+  minusDI: number;
+}
+
+export interface ParabolicSARResult {
+  time: string;
+  value: number;
+  direction: 'up' | 'down';
+  accelerationFactor: number;
+}
+
+export interface ParabolicSARConfig {
+  step: number;
+  maxStep: number;
+}
+
+/**
+ * Latest value of each indicator; null where there wasn't enough data
+ */
+export interface IndicatorSnapshot {
+  rsi: number | null;
+  macd: Omit<MACDPoint, 'time'> | null;
+  sma20: number | null;
+  sma50: number | null;
+  ema20: number | null;
+  ema50: number | null;
+  wma20: number | null;
+  bollinger: Omit<BollingerPoint, 'time'> | null;
+  adx: Omit<ADXResult, 'time'> | null;
+  psar: Omit<ParabolicSARResult, 'time'> | null;
 }
 
 /**
@@ -44,7 +121,7 @@ function calculateTrueRange(current: OHLCData, previous?: OHLCData): number {
 /**
  * Calculate Average True Range (ATR)
  */
-export function calculateATR(ohlcData: OHLCData[], period: number = 14): number[] {
+export function calculateATR(ohlcData: OHLCData[], period: number = 14, smoothing: AtrSmoothing = 'rma'): number[] {
   if (ohlcData.length < period) {
     throw new Error(`Insufficient data for ATR calculation. Need at least ${period} periods, got ${ohlcData.length}`);
   }
@@ -59,6 +136,16 @@ export function calculateATR(ohlcData: OHLCData[], period: number = 14): number[
     trueRanges.push(calculateTrueRange(current, previous));
   }
 
+  if (smoothing === 'sma') {
+    return smaOf(trueRanges, period);
+  }
+  if (smoothing === 'ema') {
+    return emaOf(trueRanges, period);
+  }
+  if (smoothing === 'wma') {
+    return wmaOf(trueRanges, period);
+  }
+
   // Calculate initial ATR using Simple Moving Average
   let sum = 0;
   for (let i = 0; i < period; i++) {
@@ -78,6 +165,20 @@ export function calculateATR(ohlcData: OHLCData[], period: number = 14): number[
   return atrValues;
 }
 
+function sourcePrice(candle: OHLCData, source: SupertrendSource): number {
+  switch (source) {
+    case 'close':
+      return candle.close;
+    case 'hlc3':
+      return (candle.high + candle.low + candle.close) / 3;
+    case 'ohlc4':
+      return (candle.open + candle.high + candle.low + candle.close) / 4;
+    case 'hl2':
+    default:
+      return (candle.high + candle.low) / 2;
+  }
+}
+
 /**
  * Calculate Supertrend Indicator
  * Based on TradingView's Pine Script implementation
@@ -86,14 +187,14 @@ export function calculateSupertrend(
   ohlcData: OHLCData[], 
   config: SupertrendConfig = { atrPeriod: 10, factor: 3.0 }
 ): SupertrendResult[] {
-  const { atrPeriod, factor } = config;
+  const { atrPeriod, factor, source = 'hl2', atrSmoothing = 'rma' } = config;
 
   if (ohlcData.length < atrPeriod + 1) {
     throw new Error(`Insufficient data for Supertrend calculation. Need at least ${atrPeriod + 1} periods, got ${ohlcData.length}`);
   }
 
   // Calculate ATR
-  const atrValues = calculateATR(ohlcData, atrPeriod);
+  const atrValues = calculateATR(ohlcData, atrPeriod, atrSmoothing);
   const results: SupertrendResult[] = [];
 
   // We start from the ATR period index since we need ATR values
@@ -102,12 +203,12 @@ export function calculateSupertrend(
     const atrIndex = i - (atrPeriod - 1);
     const currentATR = atrValues[atrIndex];
 
-    // Calculate HL2 (typical price)
-    const hl2 = (current.high + current.low) / 2;
+    // Band centre, HL2 (typical price) unless configured otherwise
+    const center = sourcePrice(current, source);
 
     // Calculate basic upper and lower bands
-    const basicUpperBand = hl2 + (factor * currentATR);
-    const basicLowerBand = hl2 - (factor * currentATR);
+    const basicUpperBand = center + (factor * currentATR);
+    const basicLowerBand = center - (factor * currentATR);
 
     let finalUpperBand = basicUpperBand;
     let finalLowerBand = basicLowerBand;
@@ -162,12 +263,13 @@ export function calculateSupertrend(
         signal = 'buy'; // Trend changed from down to up
       } else {
         // Fallback
-        direction = current.close > hl2 ? 'up' : 'down';
+        direction = current.close > center ? 'up' : 'down';
         supertrendValue = direction === 'up' ? finalLowerBand : finalUpperBand;
       }
     }
 
     results.push({
+      time: current.time,
       value: supertrendValue,
       direction,
       signal,
@@ -193,6 +295,326 @@ export function getLatestSupertrendSignal(ohlcData: OHLCData[], config?: Supertr
   }
 }
 
+/**
+ * Simple moving average of a series; the first value covers values[0..period-1]
+ */
+function smaOf(values: number[], period: number): number[] {
+  const result: number[] = [];
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) {
+      sum -= values[i - period];
+    }
+    if (i >= period - 1) {
+      result.push(sum / period);
+    }
+  }
+  return result;
+}
+
+/**
+ * Exponential moving average of a series, seeded with the SMA of the first period values
+ */
+function emaOf(values: number[], period: number): number[] {
+  if (values.length < period) {
+    return [];
+  }
+  const multiplier = 2 / (period + 1);
+  const result = [smaOf(values.slice(0, period), period)[0]];
+  for (let i = period; i < values.length; i++) {
+    const previous = result[result.length - 1];
+    result.push((values[i] - previous) * multiplier + previous);
+  }
+  return result;
+}
+
+/**
+ * Linearly weighted moving average of a series; the newest value has weight period
+ */
+function wmaOf(values: number[], period: number): number[] {
+  const divisor = (period * (period + 1)) / 2;
+  const result: number[] = [];
+  for (let i = period - 1; i < values.length; i++) {
+    let weighted = 0;
+    for (let j = 0; j < period; j++) {
+      weighted += values[i - period + 1 + j] * (j + 1);
+    }
+    result.push(weighted / divisor);
+  }
+  return result;
+}
+
+/**
+ * Pair values computed over the tail of ohlcData with their candle times
+ */
+function alignToCandles(ohlcData: OHLCData[], values: number[]): IndicatorPoint[] {
+  const offset = ohlcData.length - values.length;
+  return values.map((value, i) => ({ time: ohlcData[offset + i].time, value }));
+}
+
+/**
+ * Calculate Simple Moving Average (SMA) of closes
+ */
+export function calculateSMA(ohlcData: OHLCData[], period: number = 20): IndicatorPoint[] {
+  if (ohlcData.length < period) {
+    throw new Error(`Insufficient data for SMA calculation. Need at least ${period} periods, got ${ohlcData.length}`);
+  }
+  return alignToCandles(ohlcData, smaOf(ohlcData.map(candle => candle.close), period));
+}
+
+/**
+ * Calculate Exponential Moving Average (EMA) of closes
+ */
+export function calculateEMA(ohlcData: OHLCData[], period: number = 20): IndicatorPoint[] {
+  if (ohlcData.length < period) {
+    throw new Error(`Insufficient data for EMA calculation. Need at least ${period} periods, got ${ohlcData.length}`);
+  }
+  return alignToCandles(ohlcData, emaOf(ohlcData.map(candle => candle.close), period));
+}
+
+/**
+ * Calculate Weighted Moving Average (WMA) of closes
+ */
+export function calculateWMA(ohlcData: OHLCData[], period: number = 20): IndicatorPoint[] {
+  if (ohlcData.length < period) {
+    throw new Error(`Insufficient data for WMA calculation. Need at least ${period} periods, got ${ohlcData.length}`);
+  }
+  return alignToCandles(ohlcData, wmaOf(ohlcData.map(candle => candle.close), period));
+}
+
+/**
+ * Calculate Relative Strength Index (RSI) using Wilder's smoothing
+ */
+export function calculateRSI(ohlcData: OHLCData[], period: number = 14): IndicatorPoint[] {
+  if (ohlcData.length < period + 1) {
+    throw new Error(`Insufficient data for RSI calculation. Need at least ${period + 1} periods, got ${ohlcData.length}`);
+  }
+
+  const toRSI = (gain: number, loss: number) => (loss === 0 ? 100 : 100 - 100 / (1 + gain / loss));
+
+  // Initial averages are the simple means of the first period changes
+  let averageGain = 0;
+  let averageLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = ohlcData[i].close - ohlcData[i - 1].close;
+    averageGain += Math.max(change, 0) / period;
+    averageLoss += Math.max(-change, 0) / period;
+  }
+
+  const rsiValues = [toRSI(averageGain, averageLoss)];
+  for (let i = period + 1; i < ohlcData.length; i++) {
+    const change = ohlcData[i].close - ohlcData[i - 1].close;
+    averageGain = (averageGain * (period - 1) + Math.max(change, 0)) / period;
+    averageLoss = (averageLoss * (period - 1) + Math.max(-change, 0)) / period;
+    rsiValues.push(toRSI(averageGain, averageLoss));
+  }
+
+  return alignToCandles(ohlcData, rsiValues);
+}
+
+/**
+ * Calculate MACD line (fast EMA - slow EMA), its signal line and histogram
+ */
+export function calculateMACD(
+  ohlcData: OHLCData[],
+  config: MACDConfig = { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 }
+): MACDPoint[] {
+  const { fastPeriod, slowPeriod, signalPeriod } = config;
+  const required = Math.max(fastPeriod, slowPeriod) + signalPeriod - 1;
+
+  if (ohlcData.length < required) {
+    throw new Error(`Insufficient data for MACD calculation. Need at least ${required} periods, got ${ohlcData.length}`);
+  }
+
+  const closes = ohlcData.map(candle => candle.close);
+  const fast = emaOf(closes, fastPeriod);
+  const slow = emaOf(closes, slowPeriod);
+
+  // Both EMAs end on the last candle; line them up on the shorter one
+  const length = Math.min(fast.length, slow.length);
+  const macdLine = Array.from({ length }, (_, i) => fast[fast.length - length + i] - slow[slow.length - length + i]);
+  const signalLine = emaOf(macdLine, signalPeriod);
+  const offset = ohlcData.length - signalLine.length;
+
+  return signalLine.map((signal, i) => {
+    const macd = macdLine[macdLine.length - signalLine.length + i];
+    return { time: ohlcData[offset + i].time, macd, signal, histogram: macd - signal };
+  });
+}
+
+/**
+ * Calculate Bollinger Bands: SMA of closes +/- stdDev population standard deviations
+ */
+export function calculateBollingerBands(
+  ohlcData: OHLCData[],
+  config: BollingerConfig = { period: 20, stdDev: 2 }
+): BollingerPoint[] {
+  const { period, stdDev } = config;
+
+  if (ohlcData.length < period) {
+    throw new Error(`Insufficient data for Bollinger Bands calculation. Need at least ${period} periods, got ${ohlcData.length}`);
+  }
+
+  const closes = ohlcData.map(candle => candle.close);
+  return smaOf(closes, period).map((middle, i) => {
+    const window = closes.slice(i, i + period);
+    const variance = window.reduce((sum, close) => sum + (close - middle) ** 2, 0) / period;
+    const deviation = stdDev * Math.sqrt(variance);
+    return { time: ohlcData[i + period - 1].time, middle, upper: middle + deviation, lower: middle - deviation };
+  });
+}
+
+/**
+ * Calculate Average Directional Index (ADX) with the +DI/-DI lines, using Wilder's smoothing
+ */
+export function calculateADX(ohlcData: OHLCData[], period: number = 14): ADXResult[] {
+  if (ohlcData.length < period * 2) {
+    throw new Error(`Insufficient data for ADX calculation. Need at least ${period * 2} periods, got ${ohlcData.length}`);
+  }
+
+  let smoothedTR = 0;
+  let smoothedPlusDM = 0;
+  let smoothedMinusDM = 0;
+  const dxValues: number[] = [];
+  const results: ADXResult[] = [];
+  let adx = 0;
+
+  for (let i = 1; i < ohlcData.length; i++) {
+    const current = ohlcData[i];
+    const previous = ohlcData[i - 1];
+    const upMove = current.high - previous.high;
+    const downMove = previous.low - current.low;
+    const plusDM = upMove > downMove && upMove > 0 ? upMove : 0;
+    const minusDM = downMove > upMove && downMove > 0 ? downMove : 0;
+    const trueRange = calculateTrueRange(current, previous);
+
+    // The first smoothed values are plain sums over the first period moves
+    if (i <= period) {
+      smoothedTR += trueRange;
+      smoothedPlusDM += plusDM;
+      smoothedMinusDM += minusDM;
+    } else {
+      smoothedTR = smoothedTR - smoothedTR / period + trueRange;
+      smoothedPlusDM = smoothedPlusDM - smoothedPlusDM / period + plusDM;
+      smoothedMinusDM = smoothedMinusDM - smoothedMinusDM / period + minusDM;
+    }
+    if (i < period) {
+      continue;
+    }
+
+    const plusDI = smoothedTR === 0 ? 0 : (100 * smoothedPlusDM) / smoothedTR;
+    const minusDI = smoothedTR === 0 ? 0 : (100 * smoothedMinusDM) / smoothedTR;
+    const diSum = plusDI + minusDI;
+    const dx = diSum === 0 ? 0 : (100 * Math.abs(plusDI - minusDI)) / diSum;
+    dxValues.push(dx);
+
+    // ADX starts as the mean of the first period DX values
+    if (dxValues.length < period) {
+      continue;
+    }
+    adx = dxValues.length === period
+      ? dxValues.reduce((sum, value) => sum + value, 0) / period
+      : (adx * (period - 1) + dx) / period;
+
+    results.push({ time: current.time, adx, plusDI, minusDI });
+  }
+
+  return results;
+}
+
+/**
+ * Calculate Parabolic SAR (stop and reverse)
+ */
+export function calculateParabolicSAR(
+  ohlcData: OHLCData[],
+  config: ParabolicSARConfig = { step: 0.02, maxStep: 0.2 }
+): ParabolicSARResult[] {
+  const { step, maxStep } = config;
+
+  if (ohlcData.length < 2) {
+    throw new Error(`Insufficient data for Parabolic SAR calculation. Need at least 2 periods, got ${ohlcData.length}`);
+  }
+
+  // Seed the trend from the first two closes
+  let direction: 'up' | 'down' = ohlcData[1].close >= ohlcData[0].close ? 'up' : 'down';
+  let sar = direction === 'up' ? ohlcData[0].low : ohlcData[0].high;
+  let extremePoint = direction === 'up' ? ohlcData[0].high : ohlcData[0].low;
+  let accelerationFactor = step;
+  const results: ParabolicSARResult[] = [];
+
+  for (let i = 1; i < ohlcData.length; i++) {
+    const current = ohlcData[i];
+    const previous = ohlcData[i - 1];
+    const beforePrevious = i > 1 ? ohlcData[i - 2] : previous;
+
+    sar = sar + accelerationFactor * (extremePoint - sar);
+
+    if (direction === 'up') {
+      // SAR may not move into the prior two bars' range
+      sar = Math.min(sar, previous.low, beforePrevious.low);
+      if (current.low < sar) {
+        direction = 'down';
+        sar = extremePoint;
+        extremePoint = current.low;
+        accelerationFactor = step;
+      } else if (current.high > extremePoint) {
+        extremePoint = current.high;
+        accelerationFactor = Math.min(accelerationFactor + step, maxStep);
+      }
+    } else {
+      sar = Math.max(sar, previous.high, beforePrevious.high);
+      if (current.high > sar) {
+        direction = 'up';
+        sar = extremePoint;
+        extremePoint = current.high;
+        accelerationFactor = step;
+      } else if (current.low < extremePoint) {
+        extremePoint = current.low;
+        accelerationFactor = Math.min(accelerationFactor + step, maxStep);
+      }
+    }
+
+    results.push({ time: current.time, value: sar, direction, accelerationFactor });
+  }
+
+  return results;
+}
+
+/**
+ * Latest RSI, MACD, moving averages, Bollinger Bands, ADX and Parabolic SAR for a series of candles
+ */
+export function getLatestIndicators(ohlcData: OHLCData[]): IndicatorSnapshot {
+  // Indicators without enough history are reported as null
+  const latest = <T>(calculate: () => T[]): T | null => {
+    try {
+      const values = calculate();
+      return values.length > 0 ? values[values.length - 1] : null;
+    } catch {
+      return null;
+    }
+  };
+  const latestValue = (calculate: () => IndicatorPoint[]) => latest(calculate)?.value ?? null;
+
+  const macd = latest(() => calculateMACD(ohlcData));
+  const bollinger = latest(() => calculateBollingerBands(ohlcData));
+  const adx = latest(() => calculateADX(ohlcData));
+  const psar = latest(() => calculateParabolicSAR(ohlcData));
+
+  return {
+    rsi: latestValue(() => calculateRSI(ohlcData)),
+    macd: macd && { macd: macd.macd, signal: macd.signal, histogram: macd.histogram },
+    sma20: latestValue(() => calculateSMA(ohlcData, 20)),
+    sma50: latestValue(() => calculateSMA(ohlcData, 50)),
+    ema20: latestValue(() => calculateEMA(ohlcData, 20)),
+    ema50: latestValue(() => calculateEMA(ohlcData, 50)),
+    wma20: latestValue(() => calculateWMA(ohlcData, 20)),
+    bollinger: bollinger && { middle: bollinger.middle, upper: bollinger.upper, lower: bollinger.lower },
+    adx: adx && { adx: adx.adx, plusDI: adx.plusDI, minusDI: adx.minusDI },
+    psar: psar && { value: psar.value, direction: psar.direction, accelerationFactor: psar.accelerationFactor }
+  };
+}
+
 /**
  * Convert simple price data to OHLC format (for fallback scenarios)
  */
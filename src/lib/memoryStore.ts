@@ -0,0 +1,27 @@
+/**
+ * Memory Store
+ * Process-wide fallback storage for when no database is configured. Values live
+ * on globalThis, as Next.js can bundle a separate copy of a module for each API
+ * route and a module-level variable would not be shared between them.
+ */
+
+const shared = globalThis as typeof globalThis & { tradeproMemory?: Map<string, unknown> };
+
+/**
+ * The value stored under key, created on first use
+ */
+export function memoryStore<T>(key: string, create: () => T): T {
+  const stores = shared.tradeproMemory ??= new Map();
+  if (!stores.has(key)) {
+    stores.set(key, create());
+  }
+  return stores.get(key) as T;
+}
+
+/**
+ * Whether a Postgres database is configured. Without one the memory stores are
+ * used; with one, database errors are real errors and are not hidden by them.
+ */
+export function hasDatabase(): boolean {
+  return Boolean(process.env.POSTGRES_URL);
+}
@@ -0,0 +1,97 @@
+/**
+ * Notifications
+ * Outbound delivery of fired alerts by webhook and SMTP email.
+ * Email is sent only when SMTP_HOST is set, e.g. to a local sink such as MailHog
+ * (SMTP_HOST=localhost SMTP_PORT=1025). Webhooks only go to the hosts in
+ * ALERT_WEBHOOK_HOSTS when it is set.
+ */
+
+import axios from 'axios';
+import nodemailer, { type Transporter } from 'nodemailer';
+
+export interface AlertNotification {
+  symbol: string;
+  timeframe: string;
+  condition: string;
+  message: string;
+  price: number;
+  supertrendValue: number;
+  barTime: string;
+  firedAt: string;
+}
+
+// Give up on slow webhook receivers rather than holding up the scan
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+let transporter: Transporter | null = null;
+
+function getTransporter(): Transporter | null {
+  if (!process.env.SMTP_HOST) {
+    return null;
+  }
+  if (!transporter) {
+    const port = Number(process.env.SMTP_PORT || 587);
+    transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port,
+      secure: port === 465,
+      auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined
+    });
+  }
+  return transporter;
+}
+
+/**
+ * Whether alerts may be posted to a URL: http(s) only and, when
+ * ALERT_WEBHOOK_HOSTS (comma separated) is set, one of its hosts or a subdomain
+ */
+export function isAllowedWebhookUrl(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return false;
+  }
+  const hosts = (process.env.ALERT_WEBHOOK_HOSTS ?? '').split(',').map(host => host.trim().toLowerCase()).filter(Boolean);
+  return hosts.length === 0 || hosts.some(host => url.hostname === host || url.hostname.endsWith(`.${host}`));
+}
+
+/**
+ * POST the alert as JSON to a user's webhook. Throws for a URL that isn't
+ * allowed, e.g. a rule saved before ALERT_WEBHOOK_HOSTS was set.
+ */
+export async function sendWebhook(url: string, alert: AlertNotification): Promise<void> {
+  if (!isAllowedWebhookUrl(url)) {
+    throw new Error(`Webhook URL ${url} is not on an allowed host`);
+  }
+  await axios.post(url, { type: 'alert', ...alert }, { timeout: WEBHOOK_TIMEOUT_MS });
+}
+
+/**
+ * Email the alert; returns false when SMTP isn't configured
+ */
+export async function sendAlertEmail(to: string, alert: AlertNotification): Promise<boolean> {
+  const mailer = getTransporter();
+  if (!mailer) {
+    return false;
+  }
+
+  await mailer.sendMail({
+    from: process.env.SMTP_FROM || 'TradeScan Alerts <alerts@localhost>',
+    to,
+    subject: `Alert: ${alert.message}`,
+    text: [
+      alert.message,
+      '',
+      `Symbol: ${alert.symbol}`,
+      `Timeframe: ${alert.timeframe}`,
+      `Price: ${alert.price}`,
+      `Supertrend: ${alert.supertrendValue}`,
+      `Bar: ${alert.barTime}`
+    ].join('\n')
+  });
+  return true;
+}
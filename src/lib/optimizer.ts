@@ -0,0 +1,195 @@
+/**
+ * Supertrend Optimiser
+ * Walk-forward sweep of atrPeriod/factor grids at one band source and ATR
+ * smoothing: each window picks the best config on its training bars and scores
+ * it on the unseen bars that follow
+ */
+
+import { runBacktest, type BacktestConfig, type BacktestMetrics } from './backtest';
+import type { AtrSmoothing, OHLCData, SupertrendConfig, SupertrendSource } from './indicators';
+
+export type OptimizationMetric =
+  | 'totalReturn'
+  | 'cagr'
+  | 'winRate'
+  | 'profitFactor'
+  | 'maxDrawdown'
+  | 'returnOverDrawdown';
+
+export const OPTIMIZATION_METRICS: OptimizationMetric[] = [
+  'totalReturn',
+  'cagr',
+  'winRate',
+  'profitFactor',
+  'maxDrawdown',
+  'returnOverDrawdown'
+];
+
+export interface OptimizationConfig {
+  atrPeriods: number[];
+  factors: number[];
+  source: SupertrendSource;        // Every config in the grid uses these two
+  atrSmoothing: AtrSmoothing;
+  metric: OptimizationMetric;
+  folds: number;      // Walk-forward windows
+  trainRatio: number; // Share of each window used for fitting; the rest is out of sample
+  minTrades: number;  // Configs with fewer in-sample trades are not considered
+  backtest: Partial<Omit<BacktestConfig, 'supertrend'>>;
+}
+
+export interface ScoredConfig {
+  config: SupertrendConfig;
+  score: number | null; // null when the metric is undefined or too few trades
+  metrics: BacktestMetrics;
+}
+
+export interface WalkForwardFold {
+  trainStart: string;
+  trainEnd: string;   // Last training bar
+  testStart: string;
+  testEnd: string;    // Last test bar
+  best: SupertrendConfig | null; // null when no config could be scored in sample
+  inSampleScore: number | null;
+  outOfSampleScore: number | null;
+  outOfSample: BacktestMetrics | null;
+}
+
+export interface OptimizationResult {
+  metric: OptimizationMetric;
+  folds: WalkForwardFold[];
+  outOfSampleScore: number | null; // Mean over the folds
+  winner: ScoredConfig | null;     // Best config on the most recent training window
+  grid: ScoredConfig[];            // Every config on that window, best first
+}
+
+export const DEFAULT_OPTIMIZATION_CONFIG: OptimizationConfig = {
+  atrPeriods: [7, 10, 12, 14, 20],
+  factors: [1.5, 2, 2.5, 3, 3.5, 4],
+  source: 'hl2',
+  atrSmoothing: 'rma',
+  metric: 'returnOverDrawdown',
+  folds: 4,
+  trainRatio: 0.7,
+  minTrades: 2,
+  backtest: {}
+};
+
+/**
+ * Metric value where higher is better; null when it can't be compared
+ */
+function scoreMetrics(metrics: BacktestMetrics, metric: OptimizationMetric): number | null {
+  switch (metric) {
+    case 'totalReturn':
+      return metrics.totalReturnPct;
+    case 'cagr':
+      return metrics.cagrPct;
+    case 'winRate':
+      return metrics.winRatePct;
+    case 'profitFactor':
+      return metrics.profitFactor;
+    case 'maxDrawdown':
+      return -metrics.maxDrawdownPct;
+    case 'returnOverDrawdown':
+      // Floor the drawdown so near-flat curves don't dominate
+      return metrics.totalReturnPct / Math.max(metrics.maxDrawdownPct, 1);
+  }
+}
+
+/**
+ * Backtest one config over bars [start, end), warming the ATR up on the bars before start
+ * so the first signal can fall on `start`
+ */
+function backtestWindow(
+  ohlcData: OHLCData[],
+  start: number,
+  end: number,
+  config: SupertrendConfig,
+  options: OptimizationConfig
+): BacktestMetrics {
+  const warmup = Math.min(start, config.atrPeriod - 1);
+  return runBacktest(ohlcData.slice(start - warmup, end), { ...options.backtest, supertrend: config }).metrics;
+}
+
+function sweepGrid(ohlcData: OHLCData[], start: number, end: number, options: OptimizationConfig): ScoredConfig[] {
+  const scored: ScoredConfig[] = [];
+  options.atrPeriods.forEach(atrPeriod => {
+    options.factors.forEach(factor => {
+      const config = { atrPeriod, factor, source: options.source, atrSmoothing: options.atrSmoothing };
+      const metrics = backtestWindow(ohlcData, start, end, config, options);
+      const score = metrics.trades >= options.minTrades ? scoreMetrics(metrics, options.metric) : null;
+      scored.push({ config, score, metrics });
+    });
+  });
+
+  // Best first; unscored configs last
+  return scored.sort((a, b) => (b.score ?? -Infinity) - (a.score ?? -Infinity));
+}
+
+/**
+ * Run the walk-forward optimisation. Windows roll forward by one test period,
+ * so the test periods tile the end of the series without overlapping.
+ */
+export function optimizeSupertrend(ohlcData: OHLCData[], options: Partial<OptimizationConfig> = {}): OptimizationResult {
+  const config: OptimizationConfig = { ...DEFAULT_OPTIMIZATION_CONFIG, ...options };
+  const { atrPeriods, factors, folds, trainRatio, metric } = config;
+
+  if (atrPeriods.length === 0 || factors.length === 0) {
+    throw new Error('Optimisation grid needs at least one atrPeriod and one factor');
+  }
+  if (!Number.isInteger(folds) || folds < 1) {
+    throw new Error('folds must be a positive integer');
+  }
+  if (!(trainRatio > 0 && trainRatio < 1)) {
+    throw new Error('trainRatio must be between 0 and 1');
+  }
+
+  // N = train + folds * test, with train / (train + test) = trainRatio
+  const testBars = Math.floor(ohlcData.length / (folds + trainRatio / (1 - trainRatio)));
+  const trainBars = ohlcData.length - folds * testBars;
+
+  // Training windows must fit the slowest ATR and leave room for a few flips
+  const required = Math.max(...atrPeriods) * 3;
+  if (trainBars < required || testBars < 2) {
+    const needed = Math.ceil(required / trainRatio) + folds * 2;
+    throw new Error(`Insufficient data for walk-forward optimisation. Need at least ${needed} periods, got ${ohlcData.length}`);
+  }
+
+  const walkForward: WalkForwardFold[] = [];
+  for (let fold = 0; fold < folds; fold++) {
+    const trainStart = fold * testBars;
+    const testStart = trainStart + trainBars;
+    const testEnd = testStart + testBars;
+
+    const [best] = sweepGrid(ohlcData, trainStart, testStart, config);
+    const fitted = best && best.score !== null ? best : null;
+    const outOfSample = fitted ? backtestWindow(ohlcData, testStart, testEnd, fitted.config, config) : null;
+
+    walkForward.push({
+      trainStart: ohlcData[trainStart].time,
+      trainEnd: ohlcData[testStart - 1].time,
+      testStart: ohlcData[testStart].time,
+      testEnd: ohlcData[testEnd - 1].time,
+      best: fitted?.config ?? null,
+      inSampleScore: fitted?.score ?? null,
+      outOfSampleScore: outOfSample ? scoreMetrics(outOfSample, metric) : null,
+      outOfSample
+    });
+  }
+
+  const outOfSampleScores = walkForward
+    .map(fold => fold.outOfSampleScore)
+    .filter((score): score is number => score !== null);
+
+  // The config to trade from now on is fitted on the latest training window
+  const grid = sweepGrid(ohlcData, ohlcData.length - trainBars, ohlcData.length, config);
+
+  return {
+    metric,
+    folds: walkForward,
+    outOfSampleScore: outOfSampleScores.length > 0
+      ? outOfSampleScores.reduce((sum, score) => sum + score, 0) / outOfSampleScores.length
+      : null,
+    winner: grid[0].score !== null ? grid[0] : null,
+    grid
+  };
+}
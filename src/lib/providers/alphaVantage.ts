@@ -0,0 +1,141 @@
+/**
+ * Alpha Vantage adapter for US stocks
+ */
+
+import axios from 'axios';
+import type { OHLCData } from '../indicators';
+import { zonedTimeToISO, US_EQUITY_SESSION } from '../resample';
+import type { FetchOHLCOptions, MarketDataProvider, Quote, SourceInterval, SymbolInfo } from './types';
+
+const ALPHA_VANTAGE_API_URL = "https://www.alphavantage.co/query";
+
+// Alpha Vantage free tier allows 5 calls per minute
+const MIN_CALL_INTERVAL = 12000;
+
+interface AlphaVantageBar {
+  "1. open": string;
+  "2. high": string;
+  "3. low": string;
+  "4. close": string;
+  "5. volume": string;
+}
+
+type AlphaVantageResponse = Record<string, Record<string, AlphaVantageBar> | Record<string, string> | string | undefined>;
+
+// Request parameters and response key for each interval we read from Alpha Vantage
+const SERIES: Record<SourceInterval, { params: Record<string, string>; key: string }> = {
+  "15m": {
+    params: { function: "TIME_SERIES_INTRADAY", interval: "15min", extended_hours: "false" },
+    key: "Time Series (15min)"
+  },
+  "1h": {
+    params: { function: "TIME_SERIES_INTRADAY", interval: "60min", extended_hours: "false" },
+    key: "Time Series (60min)"
+  },
+  "1D": {
+    params: { function: "TIME_SERIES_DAILY" },
+    key: "Time Series (Daily)"
+  }
+};
+
+// outputsize=compact returns the latest 100 bars; roughly how far back that reaches
+const COMPACT_SPAN_MS: Record<SourceInterval, number> = {
+  "15m": 3 * 24 * 60 * 60 * 1000, // ~4 sessions of 26 bars
+  "1h": 12 * 24 * 60 * 60 * 1000, // ~14 sessions of 7 bars
+  "1D": 130 * 24 * 60 * 60 * 1000 // 100 trading days
+};
+
+// Popular stocks scanned by default
+const DEFAULT_UNIVERSE: SymbolInfo[] = [
+  { symbol: "AAPL", name: "Apple Inc.", type: "stock", exchange: "NASDAQ" },
+  { symbol: "MSFT", name: "Microsoft Corporation", type: "stock", exchange: "NASDAQ" },
+  { symbol: "GOOGL", name: "Alphabet Inc.", type: "stock", exchange: "NASDAQ" },
+  { symbol: "AMZN", name: "Amazon.com Inc.", type: "stock", exchange: "NASDAQ" },
+  { symbol: "TSLA", name: "Tesla Inc.", type: "stock", exchange: "NASDAQ" },
+  { symbol: "META", name: "Meta Platforms Inc.", type: "stock", exchange: "NASDAQ" },
+];
+
+/**
+ * Convert an Alpha Vantage time series into candles, oldest first
+ */
+function parseTimeSeries(timeSeries: Record<string, AlphaVantageBar>, interval: SourceInterval): OHLCData[] {
+  return Object.keys(timeSeries).sort().map(timestamp => {
+    const bar = timeSeries[timestamp];
+    return {
+      // Intraday timestamps are exchange-local bar start times
+      time: interval === "1D" ? timestamp : zonedTimeToISO(timestamp, US_EQUITY_SESSION.timeZone),
+      open: parseFloat(bar["1. open"]),
+      high: parseFloat(bar["2. high"]),
+      low: parseFloat(bar["3. low"]),
+      close: parseFloat(bar["4. close"]),
+      volume: parseInt(bar["5. volume"])
+    };
+  });
+}
+
+export function createAlphaVantageProvider(apiKey: string): MarketDataProvider {
+  let lastCall = 0;
+
+  async function throttle(): Promise<void> {
+    const wait = lastCall + MIN_CALL_INTERVAL - Date.now();
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+    lastCall = Date.now();
+  }
+
+  async function query(params: Record<string, string>): Promise<AlphaVantageResponse> {
+    await throttle();
+    const response = await axios.get<AlphaVantageResponse>(ALPHA_VANTAGE_API_URL, {
+      params: { ...params, apikey: apiKey },
+      timeout: 15000 // 15 second timeout
+    });
+
+    // Check for API errors or rate limiting
+    const message = response.data["Error Message"] || response.data["Information"] || response.data["Note"];
+    if (message) {
+      throw new Error(`Alpha Vantage: ${message}`);
+    }
+    return response.data;
+  }
+
+  return {
+    id: "alpha-vantage",
+    assetType: "stock",
+    session: US_EQUITY_SESSION,
+
+    async listUniverse(options) {
+      return DEFAULT_UNIVERSE.slice(0, options?.limit ?? DEFAULT_UNIVERSE.length);
+    },
+
+    async fetchQuote(symbol: string): Promise<Quote> {
+      const data = await query({ function: "GLOBAL_QUOTE", symbol });
+      const quote = data["Global Quote"] as Record<string, string> | undefined;
+      if (!quote || !quote["05. price"]) {
+        throw new Error(`Alpha Vantage has no quote for ${symbol}`);
+      }
+      return {
+        symbol,
+        price: parseFloat(quote["05. price"]),
+        timestamp: new Date().toISOString(),
+        changePercent24h: parseFloat(quote["10. change percent"])
+      };
+    },
+
+    async fetchOHLC(symbol: string, interval: SourceInterval, options?: FetchOHLCOptions): Promise<OHLCData[]> {
+      // A short top-up only needs the latest 100 bars rather than the full history
+      const since = options?.since ? Date.parse(options.since) : null;
+      const outputsize = since !== null && Date.now() - since < COMPACT_SPAN_MS[interval] ? "compact" : "full";
+
+      const series = SERIES[interval];
+      const data = await query({ ...series.params, outputsize, symbol });
+      const timeSeries = data[series.key] as Record<string, AlphaVantageBar> | undefined;
+      if (!timeSeries) {
+        throw new Error(`Alpha Vantage returned no ${interval} series for ${symbol}`);
+      }
+
+      const candles = parseTimeSeries(timeSeries, interval);
+      return since !== null ? candles.filter(candle => Date.parse(candle.time) >= since) : candles;
+    }
+  };
+}
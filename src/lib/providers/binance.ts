@@ -0,0 +1,87 @@
+/**
+ * Binance adapter for crypto candles.
+ * Uses the public market data endpoints, which need no API key.
+ */
+
+import axios from 'axios';
+import type { OHLCData } from '../indicators';
+import { CRYPTO_SESSION } from '../resample';
+import type { FetchOHLCOptions, MarketDataProvider, Quote, SourceInterval, SymbolInfo } from './types';
+
+const BINANCE_API_URL = process.env.BINANCE_API_URL || "https://data-api.binance.vision";
+
+// Symbols are quoted against USDT, e.g. BTC -> BTCUSDT
+const QUOTE_ASSET = "USDT";
+
+// Binance returns at most 1000 klines per request
+const KLINE_LIMIT = 1000;
+
+// Kline format: [openTime, open, high, low, close, volume, closeTime, ...]
+type Kline = [number, string, string, string, string, string, number, ...unknown[]];
+
+function toPair(symbol: string): string {
+  const base = symbol.toUpperCase();
+  if (base === QUOTE_ASSET) {
+    throw new Error(`${symbol} is the Binance quote asset and has no ${QUOTE_ASSET} pair`);
+  }
+  return `${base}${QUOTE_ASSET}`;
+}
+
+export function createBinanceProvider(): MarketDataProvider {
+  return {
+    id: "binance",
+    assetType: "crypto",
+    session: CRYPTO_SESSION,
+
+    async listUniverse(options) {
+      // Binance lists thousands of pairs with no market cap ranking; use the majors
+      const majors: SymbolInfo[] = [
+        { symbol: "BTC", name: "Bitcoin", type: "crypto", exchange: "BINANCE" },
+        { symbol: "ETH", name: "Ethereum", type: "crypto", exchange: "BINANCE" },
+        { symbol: "BNB", name: "BNB", type: "crypto", exchange: "BINANCE" },
+        { symbol: "SOL", name: "Solana", type: "crypto", exchange: "BINANCE" },
+        { symbol: "XRP", name: "XRP", type: "crypto", exchange: "BINANCE" },
+      ];
+      return majors.slice(0, options?.limit ?? majors.length);
+    },
+
+    async fetchQuote(symbol: string): Promise<Quote> {
+      const response = await axios.get<{ lastPrice: string; priceChangePercent: string; closeTime: number }>(
+        `${BINANCE_API_URL}/api/v3/ticker/24hr`,
+        { params: { symbol: toPair(symbol) }, timeout: 10000 }
+      );
+      return {
+        symbol,
+        price: parseFloat(response.data.lastPrice),
+        timestamp: new Date(response.data.closeTime).toISOString(),
+        changePercent24h: parseFloat(response.data.priceChangePercent)
+      };
+    },
+
+    async fetchOHLC(symbol: string, interval: SourceInterval, options?: FetchOHLCOptions): Promise<OHLCData[]> {
+      const response = await axios.get<Kline[]>(`${BINANCE_API_URL}/api/v3/klines`, {
+        params: {
+          symbol: toPair(symbol),
+          interval: interval === "1D" ? "1d" : interval,
+          limit: KLINE_LIMIT,
+          // Without a start time Binance returns the latest KLINE_LIMIT klines
+          ...(options?.since && { startTime: Date.parse(options.since) })
+        },
+        timeout: 10000
+      });
+
+      return response.data.map(kline => {
+        const openTime = new Date(kline[0]).toISOString();
+        return {
+          // Daily klines open at midnight UTC
+          time: interval === "1D" ? openTime.split('T')[0] : openTime,
+          open: parseFloat(kline[1]),
+          high: parseFloat(kline[2]),
+          low: parseFloat(kline[3]),
+          close: parseFloat(kline[4]),
+          volume: parseFloat(kline[5])
+        };
+      });
+    }
+  };
+}
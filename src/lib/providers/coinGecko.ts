@@ -0,0 +1,183 @@
+/**
+ * CoinGecko adapter for cryptocurrencies
+ */
+
+import axios from 'axios';
+import type { OHLCData } from '../indicators';
+import { resampleOHLC, CRYPTO_SESSION } from '../resample';
+import type { FetchOHLCOptions, MarketDataProvider, Quote, SourceInterval, SymbolInfo } from './types';
+
+const COINGECKO_API_URL = "https://api.coingecko.com/api/v3";
+
+interface CoinMarket {
+  id: string;
+  name: string;
+  symbol: string;
+  current_price: number;
+  price_change_percentage_24h_in_currency?: number;
+}
+
+// Return fallback data if API fails
+const FALLBACK_MARKETS: CoinMarket[] = [
+  { id: "bitcoin", name: "Bitcoin", symbol: "btc", current_price: 48000, price_change_percentage_24h_in_currency: 2.3 },
+  { id: "ethereum", name: "Ethereum", symbol: "eth", current_price: 3090, price_change_percentage_24h_in_currency: 3.1 },
+  { id: "binancecoin", name: "Binance Coin", symbol: "bnb", current_price: 432, price_change_percentage_24h_in_currency: 1.8 },
+];
+
+// CoinGecko chooses candle granularity from the requested day range:
+// 1-2 days gives 30-minute candles, 3-30 days 4-hour candles. Finer bars
+// than 30 minutes aren't available, so 15-minute candles can't be served.
+const OHLC_REQUESTS: Partial<Record<SourceInterval, { days: number; candleMinutes: number }>> = {
+  "1h": { days: 2, candleMinutes: 30 },
+  "1D": { days: 30, candleMinutes: 240 }
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+function toSymbolInfo(market: CoinMarket): SymbolInfo {
+  return {
+    symbol: market.symbol.toUpperCase(),
+    name: market.name,
+    type: "crypto",
+    providerId: market.id
+  };
+}
+
+export function createCoinGeckoProvider(apiKey: string | undefined): MarketDataProvider {
+  // CoinGecko addresses coins by id ("bitcoin"), the scanner by ticker ("BTC")
+  const coinIds: Map<string, string> = new Map(
+    FALLBACK_MARKETS.map(market => [market.symbol.toUpperCase(), market.id])
+  );
+
+  const headers = {
+    'Accept': 'application/json',
+    'User-Agent': 'TradePro-Scanner/1.0',
+    ...(apiKey && { 'x-cg-demo-api-key': apiKey })
+  };
+
+  function getCoinId(symbol: string): string {
+    return coinIds.get(symbol.toUpperCase()) || symbol.toLowerCase();
+  }
+
+  async function fetchMarkets(limit: number): Promise<CoinMarket[]> {
+    try {
+      console.log("Fetching crypto data from CoinGecko...");
+
+      const response = await axios.get<CoinMarket[]>(`${COINGECKO_API_URL}/coins/markets`, {
+        params: {
+          vs_currency: "usd",
+          order: "market_cap_desc",
+          per_page: limit,
+          page: 1,
+          sparkline: false,
+          price_change_percentage: "24h",
+        },
+        headers,
+        timeout: 10000 // 10 second timeout
+      });
+
+      console.log(`Successfully fetched ${response.data.length} cryptocurrencies`);
+      response.data.forEach(market => coinIds.set(market.symbol.toUpperCase(), market.id));
+      return response.data;
+    } catch (error) {
+      console.error("Error fetching crypto data:", error);
+      return FALLBACK_MARKETS.slice(0, limit);
+    }
+  }
+
+  return {
+    id: "coingecko",
+    assetType: "crypto",
+    session: CRYPTO_SESSION,
+
+    async listUniverse(options) {
+      // Top coins by market cap
+      const markets = await fetchMarkets(options?.limit ?? 10);
+      return markets.map(toSymbolInfo);
+    },
+
+    async fetchQuote(symbol: string): Promise<Quote> {
+      const coinId = getCoinId(symbol);
+      try {
+        const response = await axios.get<Record<string, { usd: number; usd_24h_change?: number }>>(`${COINGECKO_API_URL}/simple/price`, {
+          params: { ids: coinId, vs_currencies: "usd", include_24hr_change: true },
+          headers,
+          timeout: 10000
+        });
+        const price = response.data[coinId];
+        if (!price) {
+          throw new Error(`No CoinGecko price for ${coinId}`);
+        }
+        return { symbol, price: price.usd, timestamp: new Date().toISOString(), changePercent24h: price.usd_24h_change };
+      } catch (error) {
+        console.error(`Error fetching quote for ${symbol}:`, error);
+        const fallback = FALLBACK_MARKETS.find(market => market.id === coinId);
+        if (!fallback) {
+          throw error;
+        }
+        return {
+          symbol,
+          price: fallback.current_price,
+          timestamp: new Date().toISOString(),
+          changePercent24h: fallback.price_change_percentage_24h_in_currency
+        };
+      }
+    },
+
+    async fetchOHLC(symbol: string, interval: SourceInterval, options?: FetchOHLCOptions): Promise<OHLCData[]> {
+      const request = OHLC_REQUESTS[interval];
+      if (!request) {
+        throw new Error(`CoinGecko does not provide ${interval} candles`);
+      }
+
+      const coinId = getCoinId(symbol);
+      try {
+        const [ohlcResponse, chartResponse] = await Promise.all([
+          axios.get<number[][]>(`${COINGECKO_API_URL}/coins/${coinId}/ohlc`, {
+            params: { vs_currency: "usd", days: request.days },
+            headers,
+            timeout: 10000
+          }),
+          axios.get<{ total_volumes: number[][] }>(`${COINGECKO_API_URL}/coins/${coinId}/market_chart`, {
+            params: { vs_currency: "usd", days: request.days },
+            headers,
+            timeout: 10000
+          })
+        ]);
+
+        // OHLC candles carry no volume; market_chart reports rolling 24h volume,
+        // so each candle gets its share of the 24h volume at its close
+        const volumes = chartResponse.data.total_volumes;
+        const volumeAt = (timestamp: number): number => {
+          let nearest = volumes[0];
+          for (const point of volumes) {
+            if (Math.abs(point[0] - timestamp) < Math.abs(nearest[0] - timestamp)) {
+              nearest = point;
+            }
+          }
+          return nearest ? nearest[1] * (request.candleMinutes / MINUTES_PER_DAY) : 0;
+        };
+
+        // CoinGecko OHLC format: [closeTimestamp, open, high, low, close]
+        const candles: OHLCData[] = ohlcResponse.data.map(item => ({
+          time: new Date(item[0] - request.candleMinutes * 60000).toISOString(),
+          open: item[1],
+          high: item[2],
+          low: item[3],
+          close: item[4],
+          volume: volumeAt(item[0])
+        }));
+
+        const resampled = resampleOHLC(candles, interval, CRYPTO_SESSION);
+        const since = options?.since ? Date.parse(options.since) : null;
+        return since !== null ? resampled.filter(candle => Date.parse(candle.time) >= since) : resampled;
+      } catch (error) {
+        if (axios.isAxiosError(error) && error.response?.status === 400) {
+          console.warn(`No OHLC data for ${coinId} (400 Bad Request). Returning empty array.`);
+          return [];
+        }
+        throw error;
+      }
+    }
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * Combines several providers: one supplies the universe and quotes, the others
+ * are tried in order for candles. Lets a ranking source (e.g. CoinGecko market
+ * cap) pair with an exchange that has real OHLCV.
+ */
+
+import type { OHLCData } from '../indicators';
+import type { FetchOHLCOptions, MarketDataProvider, SourceInterval } from './types';
+
+export function createCompositeProvider(
+  primary: MarketDataProvider,
+  candleSources: MarketDataProvider[]
+): MarketDataProvider {
+  return {
+    id: [primary.id, ...candleSources.map(source => source.id)].join('+'),
+    assetType: primary.assetType,
+    session: primary.session,
+
+    listUniverse: (options) => primary.listUniverse(options),
+
+    fetchQuote: (symbol) => primary.fetchQuote(symbol),
+
+    async fetchOHLC(symbol: string, interval: SourceInterval, options?: FetchOHLCOptions): Promise<OHLCData[]> {
+      let lastError: unknown = null;
+
+      for (const source of candleSources) {
+        try {
+          const candles = await source.fetchOHLC(symbol, interval, options);
+          if (candles.length > 0) {
+            return candles;
+          }
+        } catch (error) {
+          console.warn(`${source.id} has no ${interval} candles for ${symbol}, trying next source`);
+          lastError = error;
+        }
+      }
+
+      if (lastError) {
+        throw lastError;
+      }
+      return [];
+    }
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * File-backed fixture provider for running the scanner offline.
+ *
+ * Each fixture is a JSON file named after its symbol:
+ * { "symbol", "name", "type", "exchange"?, "sector"?, "candles": { "15m": [[time, open, high, low, close, volume], ...], "1D": [...] } }
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { OHLCData } from '../indicators';
+import { resampleOHLC, CRYPTO_SESSION, US_EQUITY_SESSION } from '../resample';
+import type { AssetType, FetchOHLCOptions, MarketDataProvider, Quote, SourceInterval, SymbolInfo } from './types';
+
+type FixtureCandle = [string, number, number, number, number, number];
+
+interface Fixture extends SymbolInfo {
+  candles: Partial<Record<SourceInterval, FixtureCandle[]>>;
+}
+
+export const DEFAULT_FIXTURE_DIR = path.join(process.cwd(), 'src', 'lib', 'data', 'fixtures');
+
+export function createFixtureProvider(assetType: AssetType, directory: string = DEFAULT_FIXTURE_DIR): MarketDataProvider {
+  const session = assetType === 'crypto' ? CRYPTO_SESSION : US_EQUITY_SESSION;
+  let fixtures: Promise<Map<string, Fixture>> | null = null;
+
+  function loadFixtures(): Promise<Map<string, Fixture>> {
+    if (!fixtures) {
+      fixtures = (async () => {
+        const files = (await fs.readdir(directory)).filter(file => file.endsWith('.json')).sort();
+        const loaded: Map<string, Fixture> = new Map();
+        for (const file of files) {
+          const fixture = JSON.parse(await fs.readFile(path.join(directory, file), 'utf-8')) as Fixture;
+          if (fixture.type === assetType) {
+            loaded.set(fixture.symbol.toUpperCase(), fixture);
+          }
+        }
+        console.log(`Loaded ${loaded.size} ${assetType} fixtures from ${directory}`);
+        return loaded;
+      })();
+    }
+    return fixtures;
+  }
+
+  async function getFixture(symbol: string): Promise<Fixture> {
+    const fixture = (await loadFixtures()).get(symbol.toUpperCase());
+    if (!fixture) {
+      throw new Error(`No fixture data for ${symbol}`);
+    }
+    return fixture;
+  }
+
+  async function readCandles(symbol: string, interval: SourceInterval): Promise<OHLCData[]> {
+    const fixture = await getFixture(symbol);
+    const rows = fixture.candles[interval];
+
+    if (!rows) {
+      // Hourly bars can be built from 15-minute ones
+      if (interval === '1h' && fixture.candles['15m']) {
+        return resampleOHLC(await readCandles(symbol, '15m'), '1h', session);
+      }
+      throw new Error(`No ${interval} fixture candles for ${symbol}`);
+    }
+
+    return rows.map(([time, open, high, low, close, volume]) => ({ time, open, high, low, close, volume }));
+  }
+
+  async function fetchOHLC(symbol: string, interval: SourceInterval, options?: FetchOHLCOptions): Promise<OHLCData[]> {
+    const candles = await readCandles(symbol, interval);
+    const since = options?.since ? Date.parse(options.since) : null;
+    return since !== null ? candles.filter(candle => Date.parse(candle.time) >= since) : candles;
+  }
+
+  return {
+    id: 'fixture',
+    assetType,
+    session,
+    offline: true,
+
+    async listUniverse(options) {
+      const all = Array.from((await loadFixtures()).values());
+      return all
+        .slice(0, options?.limit ?? all.length)
+        .map(({ symbol, name, type, exchange, sector }) => ({ symbol, name, type, exchange, sector }));
+    },
+
+    async fetchQuote(symbol: string): Promise<Quote> {
+      const fixture = await getFixture(symbol);
+      const rows = fixture.candles['15m'] || fixture.candles['1D'] || [];
+      const last = rows[rows.length - 1];
+      if (!last) {
+        throw new Error(`No fixture candles for ${symbol}`);
+      }
+      return { symbol: fixture.symbol, price: last[4], timestamp: last[0] };
+    },
+
+    fetchOHLC
+  };
+}
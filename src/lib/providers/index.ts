@@ -0,0 +1,49 @@
+/**
+ * Market data provider registry.
+ *
+ * MARKET_DATA_PROVIDER selects the source: "live" (default) uses the vendor
+ * adapters, "fixture" reads recorded candles from FIXTURE_DATA_DIR and
+ * "synthetic" generates markets seeded by SYNTHETIC_SEED.
+ */
+
+import { createAlphaVantageProvider } from './alphaVantage';
+import { createBinanceProvider } from './binance';
+import { createCoinGeckoProvider } from './coinGecko';
+import { createCompositeProvider } from './composite';
+import { createFixtureProvider, DEFAULT_FIXTURE_DIR } from './fixture';
+import { createSyntheticProvider } from './synthetic';
+import type { AssetType, MarketDataProvider } from './types';
+
+export type { AssetType, FetchOHLCOptions, MarketDataProvider, Quote, SourceInterval, SymbolInfo } from './types';
+
+// Providers hold rate-limit state and symbol maps, so keep one per asset type
+const providers: Partial<Record<AssetType, MarketDataProvider>> = {};
+
+function createProvider(assetType: AssetType): MarketDataProvider {
+  if (process.env.MARKET_DATA_PROVIDER === 'fixture') {
+    return createFixtureProvider(assetType, process.env.FIXTURE_DATA_DIR || DEFAULT_FIXTURE_DIR);
+  }
+  if (process.env.MARKET_DATA_PROVIDER === 'synthetic') {
+    return createSyntheticProvider(assetType, process.env.SYNTHETIC_SEED);
+  }
+
+  if (assetType === 'crypto') {
+    // CoinGecko ranks coins by market cap; Binance has real 15-minute OHLCV
+    const coinGecko = createCoinGeckoProvider(process.env.COINGECKO_API_KEY);
+    return createCompositeProvider(coinGecko, [createBinanceProvider(), coinGecko]);
+  }
+
+  const apiKey = process.env.ALPHA_VANTAGE_API_KEY;
+  if (!apiKey || apiKey === 'YOUR_ALPHA_VANTAGE_API_KEY') {
+    console.warn('ALPHA_VANTAGE_API_KEY not set, using synthetic stock data');
+    return createSyntheticProvider('stock', process.env.SYNTHETIC_SEED);
+  }
+  return createAlphaVantageProvider(apiKey);
+}
+
+export function getMarketDataProvider(assetType: AssetType): MarketDataProvider {
+  if (!providers[assetType]) {
+    providers[assetType] = createProvider(assetType);
+  }
+  return providers[assetType];
+}
@@ -0,0 +1,111 @@
+/**
+ * Synthetic provider: reproducible generated markets for running without API keys.
+ * Each symbol's candles come from a seeded random walk, so every scan on the same
+ * day sees the same data.
+ */
+
+import type { OHLCData } from '../indicators';
+import { resampleOHLC, CRYPTO_SESSION, US_EQUITY_SESSION } from '../resample';
+import { createSeededRandom, generateSyntheticOHLC, type MarketRegime } from '../synthetic';
+import type { AssetType, FetchOHLCOptions, MarketDataProvider, Quote, SourceInterval, SymbolInfo } from './types';
+
+interface SyntheticSymbol extends SymbolInfo {
+  startPrice: number;
+}
+
+const SYNTHETIC_SYMBOLS: Record<AssetType, SyntheticSymbol[]> = {
+  stock: [
+    { symbol: "AAPL", name: "Apple Inc.", type: "stock", exchange: "NASDAQ", startPrice: 170 },
+    { symbol: "MSFT", name: "Microsoft Corporation", type: "stock", exchange: "NASDAQ", startPrice: 330 },
+    { symbol: "GOOGL", name: "Alphabet Inc.", type: "stock", exchange: "NASDAQ", startPrice: 140 },
+    { symbol: "AMZN", name: "Amazon.com Inc.", type: "stock", exchange: "NASDAQ", startPrice: 150 },
+    { symbol: "TSLA", name: "Tesla Inc.", type: "stock", exchange: "NASDAQ", startPrice: 240 },
+    { symbol: "META", name: "Meta Platforms Inc.", type: "stock", exchange: "NASDAQ", startPrice: 350 },
+  ],
+  crypto: [
+    { symbol: "BTC", name: "Bitcoin", type: "crypto", startPrice: 45000 },
+    { symbol: "ETH", name: "Ethereum", type: "crypto", startPrice: 3000 },
+    { symbol: "BNB", name: "BNB", type: "crypto", startPrice: 400 },
+    { symbol: "SOL", name: "Solana", type: "crypto", startPrice: 100 },
+    { symbol: "XRP", name: "XRP", type: "crypto", startPrice: 0.6 },
+  ]
+};
+
+// Crypto swings harder than large-cap stocks
+const CRYPTO_REGIMES: MarketRegime[] = [
+  { drift: 0.003, volatility: 0.035 },
+  { drift: -0.0035, volatility: 0.045 },
+  { drift: 0, volatility: 0.02 }
+];
+
+// Sessions of 15-minute history generated per symbol; hourly and daily bars are resampled from it
+const HISTORY_SESSIONS: Record<AssetType, number> = {
+  stock: 260, // About a year of trading days
+  crypto: 200
+};
+
+export function createSyntheticProvider(assetType: AssetType, seed: string = "tradepro"): MarketDataProvider {
+  const session = assetType === "crypto" ? CRYPTO_SESSION : US_EQUITY_SESSION;
+  const barsPerSession = assetType === "crypto" ? 96 : 26;
+  const history: Map<string, OHLCData[]> = new Map();
+
+  function getSymbol(symbol: string): SyntheticSymbol {
+    const known = SYNTHETIC_SYMBOLS[assetType].find(info => info.symbol === symbol.toUpperCase());
+    if (known) {
+      return known;
+    }
+    // Any other symbol gets its own market with a seeded starting price
+    const random = createSeededRandom(`${seed}:${symbol.toUpperCase()}:price`);
+    return { symbol: symbol.toUpperCase(), name: symbol.toUpperCase(), type: assetType, startPrice: Math.round(20 + random() * 480) };
+  }
+
+  function getHistory(symbol: string): OHLCData[] {
+    // History ends at the start of today, so it only changes once a day
+    const end = new Date(new Date().toISOString().split("T")[0]);
+    const key = `${symbol.toUpperCase()}:${end.toISOString()}`;
+
+    let candles = history.get(key);
+    if (!candles) {
+      const info = getSymbol(symbol);
+      candles = generateSyntheticOHLC({
+        seed: `${seed}:${info.symbol}`,
+        bars: HISTORY_SESSIONS[assetType] * barsPerSession,
+        interval: "15m",
+        end,
+        session,
+        startPrice: info.startPrice,
+        regimes: assetType === "crypto" ? CRYPTO_REGIMES : undefined,
+        averageVolume: assetType === "crypto" ? 20000 : 5000000
+      });
+      history.set(key, candles);
+    }
+    return candles;
+  }
+
+  return {
+    id: "synthetic",
+    assetType,
+    session,
+    offline: true,
+
+    async listUniverse(options) {
+      const symbols = SYNTHETIC_SYMBOLS[assetType];
+      return symbols
+        .slice(0, options?.limit ?? symbols.length)
+        .map(({ symbol, name, type, exchange }) => ({ symbol, name, type, exchange }));
+    },
+
+    async fetchQuote(symbol: string): Promise<Quote> {
+      const candles = getHistory(symbol);
+      const last = candles[candles.length - 1];
+      return { symbol, price: last.close, timestamp: last.time };
+    },
+
+    async fetchOHLC(symbol: string, interval: SourceInterval, options?: FetchOHLCOptions): Promise<OHLCData[]> {
+      const intraday = getHistory(symbol);
+      const candles = interval === "15m" ? intraday : resampleOHLC(intraday, interval, session);
+      const since = options?.since ? Date.parse(options.since) : null;
+      return since !== null ? candles.filter(candle => Date.parse(candle.time) >= since) : candles;
+    }
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * Market Data Provider Interface
+ * Every data vendor (or offline source) is wrapped in an adapter implementing this
+ */
+
+import type { OHLCData } from '../indicators';
+import type { SessionConfig } from '../resample';
+
+export type AssetType = 'stock' | 'crypto';
+
+/**
+ * Intervals providers deliver natively; scanner timeframes are resampled from these
+ */
+export type SourceInterval = '15m' | '1h' | '1D';
+
+export interface SymbolInfo {
+  symbol: string;
+  name: string;
+  type: AssetType;
+  exchange?: string;
+  sector?: string;
+  providerId?: string; // Vendor-specific identifier, e.g. CoinGecko's "bitcoin"
+}
+
+export interface Quote {
+  symbol: string;
+  price: number;
+  timestamp: string;
+  changePercent24h?: number;
+}
+
+export interface FetchOHLCOptions {
+  since?: string; // Only bars starting at or after this time are needed
+}
+
+export interface MarketDataProvider {
+  readonly id: string;
+  readonly assetType: AssetType;
+  readonly session: SessionConfig;
+  readonly offline?: boolean; // Local data (fixtures, generated); never written to the candle store
+
+  /**
+   * Symbols this provider scans by default
+   */
+  listUniverse(options?: { limit?: number }): Promise<SymbolInfo[]>;
+
+  /**
+   * Latest traded price for a symbol
+   */
+  fetchQuote(symbol: string): Promise<Quote>;
+
+  /**
+   * Candles for a symbol, oldest first. Intraday candles carry ISO UTC times,
+   * daily candles "YYYY-MM-DD" dates. Throws when the vendor can't supply them.
+   */
+  fetchOHLC(symbol: string, interval: SourceInterval, options?: FetchOHLCOptions): Promise<OHLCData[]>;
+}
@@ -0,0 +1,231 @@
+/**
+ * Candle Resampling
+ * Aggregates a fine-grained OHLCV series into bars of a coarser interval
+ */
+
+import type { OHLCData } from './indicators';
+
+export type ResampleInterval = '15m' | '45m' | '1h' | '2h' | '4h' | '1D' | '3D' | '1W';
+
+export interface SessionConfig {
+  timeZone: string;
+  open: string;  // Session open in exchange time, "HH:MM"
+  close: string; // Session close in exchange time, "HH:MM" ("24:00" for round-the-clock markets)
+}
+
+/**
+ * Regular trading hours for US equities
+ */
+export const US_EQUITY_SESSION: SessionConfig = {
+  timeZone: 'America/New_York',
+  open: '09:30',
+  close: '16:00'
+};
+
+/**
+ * Crypto trades around the clock; days roll over at midnight UTC
+ */
+export const CRYPTO_SESSION: SessionConfig = {
+  timeZone: 'UTC',
+  open: '00:00',
+  close: '24:00'
+};
+
+/**
+ * Bar interval behind each timeframe column of the scanner
+ */
+export const TIMEFRAME_INTERVALS = {
+  "45M": "45m",
+  "2H": "2h",
+  "4H": "4h",
+  "1D": "1D",
+  "3D": "3D",
+  "1W": "1W"
+} as const satisfies Record<string, ResampleInterval>;
+
+export type Timeframe = keyof typeof TIMEFRAME_INTERVALS;
+
+export const TIMEFRAMES = Object.keys(TIMEFRAME_INTERVALS) as Timeframe[];
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const formatterCache: Map<string, Intl.DateTimeFormat> = new Map();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock date and time of an instant in the given time zone
+ */
+function getZonedParts(date: Date, timeZone: string) {
+  const parts = getFormatter(timeZone).formatToParts(date);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return {
+    year: part('year'),
+    month: part('month'),
+    day: part('day'),
+    hour: part('hour'),
+    minute: part('minute'),
+    second: part('second')
+  };
+}
+
+/**
+ * Offset of a time zone from UTC at the given instant, in minutes
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getZonedParts(date, timeZone);
+  return (Date.UTC(year, month - 1, day, hour, minute, second) - date.getTime()) / 60000;
+}
+
+/**
+ * Convert a wall-clock "YYYY-MM-DD HH:MM:SS" timestamp in a time zone to an ISO UTC string
+ */
+export function zonedTimeToISO(timestamp: string, timeZone: string): string {
+  const naive = new Date(`${timestamp.replace(' ', 'T')}Z`);
+  const offset = getTimeZoneOffset(naive, timeZone);
+  return new Date(naive.getTime() - offset * 60000).toISOString();
+}
+
+function parseClock(clock: string): number {
+  const [hours, minutes] = clock.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function formatClock(minutes: number): string {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}:00`;
+}
+
+function formatDayNumber(dayNumber: number): string {
+  return new Date(dayNumber * MS_PER_DAY).toISOString().split('T')[0];
+}
+
+/**
+ * Split an interval such as "45m", "4h" or "3D" into its unit and count
+ */
+export function parseInterval(interval: string): { unit: 'm' | 'h' | 'D' | 'W'; count: number } {
+  const match = /^(\d+)(m|h|D|W)$/.exec(interval);
+  if (!match || Number(match[1]) <= 0) {
+    throw new Error(`Unsupported resample interval: ${interval}`);
+  }
+  return { unit: match[2] as 'm' | 'h' | 'D' | 'W', count: Number(match[1]) };
+}
+
+/**
+ * Locate the session a candle belongs to: its exchange-local date (as a day number)
+ * and, for intraday candles, the minute of the day it starts at.
+ */
+function locateCandle(candle: OHLCData, session: SessionConfig): { dayNumber: number; minuteOfDay: number | null } {
+  if (DATE_ONLY_PATTERN.test(candle.time)) {
+    return { dayNumber: Date.parse(`${candle.time}T00:00:00Z`) / MS_PER_DAY, minuteOfDay: null };
+  }
+
+  const { year, month, day, hour, minute } = getZonedParts(new Date(candle.time), session.timeZone);
+  return {
+    dayNumber: Date.UTC(year, month - 1, day) / MS_PER_DAY,
+    minuteOfDay: hour * 60 + minute
+  };
+}
+
+/**
+ * Work out which output bar a candle falls into. Returns null for intraday
+ * candles outside the trading session, which are dropped from every bar.
+ */
+function getBucket(
+  candle: OHLCData,
+  unit: 'm' | 'h' | 'D' | 'W',
+  count: number,
+  session: SessionConfig
+): { key: string; time: string } | null {
+  const { dayNumber, minuteOfDay } = locateCandle(candle, session);
+  const sessionOpen = parseClock(session.open);
+  const sessionClose = parseClock(session.close);
+
+  if (minuteOfDay !== null && (minuteOfDay < sessionOpen || minuteOfDay >= sessionClose)) {
+    return null;
+  }
+
+  switch (unit) {
+    case 'm':
+    case 'h': {
+      if (minuteOfDay === null) {
+        throw new Error(`Cannot resample daily candles to ${count}${unit} bars`);
+      }
+
+      // Intraday bars are aligned to the session open and never span two sessions
+      const barMinutes = unit === 'h' ? count * 60 : count;
+      const index = Math.floor((minuteOfDay - sessionOpen) / barMinutes);
+      const date = formatDayNumber(dayNumber);
+      return {
+        key: `${date}#${index}`,
+        time: zonedTimeToISO(`${date} ${formatClock(sessionOpen + index * barMinutes)}`, session.timeZone)
+      };
+    }
+    case 'D': {
+      // Multi-day bars are anchored to the Unix epoch so they don't shift as history grows
+      const bucketDay = Math.floor(dayNumber / count) * count;
+      return { key: `${bucketDay}`, time: formatDayNumber(bucketDay) };
+    }
+    case 'W': {
+      // Weeks start on Monday; day 0 (1970-01-01) was a Thursday
+      const weekStart = dayNumber - ((dayNumber + 3) % 7);
+      const bucketWeek = Math.floor((weekStart - 4) / (7 * count)) * 7 * count + 4;
+      return { key: `${bucketWeek}`, time: formatDayNumber(bucketWeek) };
+    }
+  }
+}
+
+/**
+ * Resample an OHLCV series (oldest first) into bars of the given interval.
+ *
+ * Open comes from the first candle of each bar, close from the last, high/low are
+ * the extremes and volume is summed. Intraday bars start at the session open and
+ * are cut at the session close; daily and longer bars are stamped with their
+ * start date ("YYYY-MM-DD"), intraday bars with an ISO UTC start time.
+ */
+export function resampleOHLC(
+  ohlcData: OHLCData[],
+  interval: ResampleInterval | string,
+  session: SessionConfig = US_EQUITY_SESSION
+): OHLCData[] {
+  const { unit, count } = parseInterval(interval);
+  const bars: OHLCData[] = [];
+  let currentKey: string | null = null;
+
+  for (const candle of ohlcData) {
+    const bucket = getBucket(candle, unit, count, session);
+    if (!bucket) {
+      continue;
+    }
+
+    const last = bars[bars.length - 1];
+    if (last && bucket.key === currentKey) {
+      last.high = Math.max(last.high, candle.high);
+      last.low = Math.min(last.low, candle.low);
+      last.close = candle.close;
+      last.volume += candle.volume;
+    } else {
+      bars.push({ ...candle, time: bucket.time });
+      currentKey = bucket.key;
+    }
+  }
+
+  return bars;
+}
@@ -0,0 +1,99 @@
+/**
+ * Saved Scans
+ * A user's named dashboard setups: universe, screener filter, sort and visible
+ * columns. Each has a share token for a read-only link.
+ */
+
+import { randomBytes } from 'crypto';
+import { sql } from '@vercel/postgres';
+import { TIMEFRAMES } from './resample';
+
+// Sortable columns and their direction
+export const SCAN_SORTS = ['alignment:desc', 'alignment:asc'] as const;
+export type ScanSort = typeof SCAN_SORTS[number];
+
+// Table columns that can be hidden; the asset column is always shown
+export const SCAN_COLUMNS: string[] = [
+  'price',
+  'alignment',
+  ...TIMEFRAMES.flatMap(timeframe => [`trend.${timeframe}`, `st.${timeframe}`]),
+  'watchlist'
+];
+
+export interface SavedScan {
+  id: number;
+  name: string;
+  universe: string | null; // null scans the default universes
+  filter: string | null;
+  sort: ScanSort | null;
+  columns: string[];
+  shareToken: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ScanDefinition = Pick<SavedScan, 'name' | 'universe' | 'filter' | 'sort' | 'columns'>;
+
+function toScan(row: Record<string, unknown>): SavedScan {
+  return {
+    id: row.id as number,
+    name: row.name as string,
+    universe: (row.universe_slug as string | null) ?? null,
+    filter: (row.filter as string | null) ?? null,
+    sort: (row.sort as ScanSort | null) ?? null,
+    columns: row.columns as string[],
+    shareToken: row.share_token as string,
+    createdAt: new Date(row.created_at as string).toISOString(),
+    updatedAt: new Date(row.updated_at as string).toISOString()
+  };
+}
+
+export async function listSavedScans(userId: number): Promise<SavedScan[]> {
+  const { rows } = await sql`
+    SELECT id, name, universe_slug, filter, sort, columns, share_token, created_at, updated_at
+    FROM saved_scans
+    WHERE user_id = ${userId}
+    ORDER BY name
+  `;
+  return rows.map(toScan);
+}
+
+export async function createSavedScan(userId: number, scan: ScanDefinition): Promise<SavedScan> {
+  const shareToken = randomBytes(12).toString('base64url');
+  const { rows } = await sql`
+    INSERT INTO saved_scans (user_id, name, universe_slug, filter, sort, columns, share_token)
+    VALUES (${userId}, ${scan.name}, ${scan.universe}, ${scan.filter}, ${scan.sort}, ${JSON.stringify(scan.columns)}, ${shareToken})
+    RETURNING id, name, universe_slug, filter, sort, columns, share_token, created_at, updated_at
+  `;
+  return toScan(rows[0]);
+}
+
+export async function updateSavedScan(userId: number, id: number, scan: ScanDefinition): Promise<SavedScan | null> {
+  const { rows } = await sql`
+    UPDATE saved_scans
+    SET name = ${scan.name}, universe_slug = ${scan.universe}, filter = ${scan.filter}, sort = ${scan.sort},
+        columns = ${JSON.stringify(scan.columns)}, updated_at = NOW()
+    WHERE id = ${id} AND user_id = ${userId}
+    RETURNING id, name, universe_slug, filter, sort, columns, share_token, created_at, updated_at
+  `;
+  return rows.length > 0 ? toScan(rows[0]) : null;
+}
+
+export async function deleteSavedScan(userId: number, id: number): Promise<boolean> {
+  const { rowCount } = await sql`
+    DELETE FROM saved_scans WHERE id = ${id} AND user_id = ${userId}
+  `;
+  return (rowCount ?? 0) > 0;
+}
+
+/**
+ * The scan behind a share link, with its owner for resolving private universes
+ */
+export async function getSharedScan(shareToken: string): Promise<(SavedScan & { userId: number }) | null> {
+  const { rows } = await sql`
+    SELECT id, user_id, name, universe_slug, filter, sort, columns, share_token, created_at, updated_at
+    FROM saved_scans
+    WHERE share_token = ${shareToken}
+  `;
+  return rows.length > 0 ? { ...toScan(rows[0]), userId: rows[0].user_id } : null;
+}
@@ -0,0 +1,89 @@
+/**
+ * Scan Snapshots
+ * Scan results computed ahead of time by the background job, one per universe,
+ * and one per universe and user for users with Supertrend settings of their own.
+ * Kept in memory when no database is configured.
+ */
+
+import { sql } from '@vercel/postgres';
+import type { ProcessedAsset } from './scanner';
+import { hasDatabase, memoryStore } from './memoryStore';
+
+export interface ScanSnapshot {
+  universe: string;
+  userId: number | null; // Whose Supertrend settings the scan used; null for the shared scan
+  assets: ProcessedAsset[];
+  createdAt: string;
+}
+
+// How long old snapshots are kept
+const RETENTION_DAYS = 7;
+
+const memorySnapshots = memoryStore('scanSnapshots', () => new Map<string, ScanSnapshot>());
+
+function snapshotKey(universe: string, userId: number | null): string {
+  return userId === null ? universe : `${universe}:user:${userId}`;
+}
+
+export async function saveScanSnapshot(universe: string, assets: ProcessedAsset[], userId: number | null = null): Promise<ScanSnapshot> {
+  const snapshot: ScanSnapshot = { universe, userId, assets, createdAt: new Date().toISOString() };
+  if (!hasDatabase()) {
+    memorySnapshots.set(snapshotKey(universe, userId), snapshot);
+    return snapshot;
+  }
+
+  const { rows } = await sql`
+    INSERT INTO scan_snapshots (universe_slug, user_id, assets)
+    VALUES (${universe}, ${userId}, ${JSON.stringify(assets)})
+    RETURNING created_at
+  `;
+  snapshot.createdAt = new Date(rows[0].created_at).toISOString();
+
+  await sql`
+    DELETE FROM scan_snapshots
+    WHERE universe_slug = ${universe} AND user_id IS NOT DISTINCT FROM ${userId}
+      AND created_at < NOW() - make_interval(days => ${RETENTION_DAYS})
+  `;
+  return snapshot;
+}
+
+/**
+ * The latest scan of a universe, with the given user's Supertrend settings or,
+ * for null, the shared one
+ */
+export async function getLatestScanSnapshot(universe: string, userId: number | null = null): Promise<ScanSnapshot | null> {
+  if (!hasDatabase()) {
+    return memorySnapshots.get(snapshotKey(universe, userId)) ?? null;
+  }
+
+  const { rows } = await sql`
+    SELECT universe_slug, user_id, assets, created_at
+    FROM scan_snapshots
+    WHERE universe_slug = ${universe} AND user_id IS NOT DISTINCT FROM ${userId}
+    ORDER BY created_at DESC
+    LIMIT 1
+  `;
+  if (rows.length === 0) {
+    return null;
+  }
+  return {
+    universe: rows[0].universe_slug,
+    userId: rows[0].user_id ?? null,
+    assets: rows[0].assets,
+    createdAt: new Date(rows[0].created_at).toISOString()
+  };
+}
+
+/**
+ * Drop a user's own snapshots, e.g. once their settings change and the
+ * snapshots no longer match them
+ */
+export async function deleteUserScanSnapshots(userId: number): Promise<void> {
+  if (!hasDatabase()) {
+    Array.from(memorySnapshots.values())
+      .filter(snapshot => snapshot.userId === userId)
+      .forEach(snapshot => memorySnapshots.delete(snapshotKey(snapshot.universe, userId)));
+    return;
+  }
+  await sql`DELETE FROM scan_snapshots WHERE user_id = ${userId}`;
+}
@@ -0,0 +1,513 @@
+/**
+ * Scanner
+ * Fetches a universe's candles and computes the trend and Supertrend columns for each asset
+ */
+
+import {
+  calculateADX,
+  calculateSupertrend,
+  getLatestIndicators,
+  getLatestSupertrendSignal,
+  type ADXResult,
+  type IndicatorSnapshot,
+  type OHLCData,
+  type SupertrendResult,
+  type SupertrendConfig
+} from "./indicators";
+import {
+  resampleOHLC,
+  TIMEFRAMES,
+  TIMEFRAME_INTERVALS,
+  type Timeframe,
+  type SessionConfig
+} from "./resample";
+import { getMarketDataProvider, type AssetType, type SymbolInfo } from "./providers";
+import { getCandles } from "./candleStore";
+import { getUniverseMembers, listAllUniverses, type Universe } from "./universes";
+import { saveScanSnapshot, type ScanSnapshot } from "./scanSnapshots";
+import { getSupertrendOverrides, listUsersWithSupertrendSettings, type SettingsScope } from "./supertrendSettings";
+import { evaluateAlerts } from "./alerts";
+import { recordSignalEvents, type SupertrendBar } from "./signalEvents";
+import { registerSymbols } from "./symbols";
+
+export interface TrendData {
+  trend: string;
+  strength: number | null; // ADX 0-100; null without enough bars
+  startDate: string | null; // Time of the bar the current trend began on
+  bars: number; // Bars the trend has lasted, including the latest
+}
+
+// ADX below this is treated as a range rather than a trend
+const TRENDING_ADX = 20;
+
+/**
+ * How far the timeframes agree. Each timeframe votes with its trend and its
+ * Supertrend direction; longer timeframes carry more weight.
+ */
+export interface Confluence {
+  score: number;    // -100 (every vote bearish) to 100 (every vote bullish)
+  bullish: number;  // Timeframes in an uptrend with Supertrend up
+  bearish: number;  // Timeframes in a downtrend with Supertrend down
+  aligned: "bullish" | "bearish" | null; // Set when every timeframe agrees
+}
+
+const CONFLUENCE_WEIGHTS: Record<Timeframe, number> = {
+  "45M": 1,
+  "2H": 1,
+  "4H": 1.5,
+  "1D": 2,
+  "3D": 2,
+  "1W": 2.5
+};
+
+export interface ProcessedAsset {
+  name: string;
+  symbol: string;
+  type: "stock" | "crypto";
+  exchange?: string;
+  sector?: string;
+  price?: number;
+  "45M": TrendData;
+  "2H": TrendData;
+  "4H": TrendData;
+  "1D": TrendData;
+  "3D": TrendData;
+  "1W": TrendData;
+  supertrend?: {
+    "45M": SupertrendResult | null;
+    "2H": SupertrendResult | null;
+    "4H": SupertrendResult | null;
+    "1D": SupertrendResult | null;
+    "3D": SupertrendResult | null;
+    "1W": SupertrendResult | null;
+  };
+  indicators?: Record<Timeframe, IndicatorSnapshot>;
+  confluence?: Confluence;
+  ohlc?: OHLCData[];
+  universe?: string; // Slug of the universe it was scanned in, whose Supertrend settings apply
+}
+
+function classifyTrend({ adx, plusDI, minusDI }: ADXResult): string {
+  if (adx < TRENDING_ADX) {
+    return "sideways";
+  }
+  return plusDI > minusDI ? "uptrend" : "downtrend";
+}
+
+/**
+ * Trend direction from the DMI lines, its strength from ADX, and the bar
+ * where the current trend began
+ */
+function analyzeTrend(candles: OHLCData[]): TrendData {
+  let series: ADXResult[];
+  try {
+    series = calculateADX(candles);
+  } catch {
+    return { trend: "sideways", strength: null, startDate: null, bars: 0 };
+  }
+
+  const latest = series[series.length - 1];
+  const trend = classifyTrend(latest);
+
+  // Walk back to the first bar of the current run
+  let start = series.length - 1;
+  while (start > 0 && classifyTrend(series[start - 1]) === trend) {
+    start--;
+  }
+
+  return {
+    trend,
+    strength: Math.round(latest.adx),
+    startDate: series[start].time,
+    bars: series.length - start
+  };
+}
+
+/**
+ * Combine the trend and Supertrend columns into one alignment score
+ */
+function calculateConfluence(
+  trends: Record<Timeframe, TrendData>,
+  supertrend: Record<Timeframe, SupertrendResult | null>
+): Confluence {
+  let votes = 0;
+  let totalWeight = 0;
+  let bullish = 0;
+  let bearish = 0;
+
+  TIMEFRAMES.forEach(timeframe => {
+    const trendVote = trends[timeframe].trend === "uptrend" ? 1 : trends[timeframe].trend === "downtrend" ? -1 : 0;
+    const direction = supertrend[timeframe]?.direction;
+    const supertrendVote = direction === "up" ? 1 : direction === "down" ? -1 : 0;
+
+    votes += CONFLUENCE_WEIGHTS[timeframe] * (trendVote + supertrendVote);
+    totalWeight += CONFLUENCE_WEIGHTS[timeframe] * 2;
+    if (trendVote === 1 && supertrendVote === 1) bullish++;
+    if (trendVote === -1 && supertrendVote === -1) bearish++;
+  });
+
+  return {
+    score: Math.round((votes / totalWeight) * 100),
+    bullish,
+    bearish,
+    aligned: bullish === TIMEFRAMES.length ? "bullish" : bearish === TIMEFRAMES.length ? "bearish" : null
+  };
+}
+
+interface AssetCandles {
+  info: SymbolInfo;
+  session: SessionConfig;
+  intraday: OHLCData[];
+  daily: OHLCData[];
+}
+
+async function fetchUniverseData(universe: Universe): Promise<AssetCandles[]> {
+  try {
+    console.log(`Fetching ${universe.name} data...`);
+    
+    const provider = getMarketDataProvider(universe.assetType);
+    const members = await getUniverseMembers(universe);
+    const assetData: AssetCandles[] = [];
+    
+    for (const info of members) {
+      try {
+        const daily = await getCandles(provider, info.symbol, "1D");
+        // Intraday columns stay empty when no source has 15-minute bars for the symbol
+        const intraday = await getCandles(provider, info.symbol, "15m").catch((error) => {
+          console.warn(`No intraday data for ${info.symbol}:`, error);
+          return [] as OHLCData[];
+        });
+        assetData.push({ info, session: provider.session, intraday, daily });
+      } catch (error) {
+        console.error(`Error fetching data for ${info.symbol}:`, error);
+      }
+    }
+    
+    console.log(`Successfully processed ${assetData.length} assets from ${universe.name}`);
+    // Symbols with data are known to exist, so watchlists may hold them
+    await registerSymbols(assetData.map(asset => asset.info)).catch((error) => {
+      console.error(`Error registering ${universe.name} symbols:`, error);
+    });
+    return assetData;
+  } catch (error) {
+    console.error(`Error fetching ${universe.name} data:`, error);
+    return [];
+  }
+}
+
+/**
+ * Build candles of each displayed interval from 15-minute and daily source bars
+ */
+function buildTimeframeCandles({ intraday, daily, session }: AssetCandles): Record<Timeframe, OHLCData[]> {
+  const candles = {} as Record<Timeframe, OHLCData[]>;
+  
+  TIMEFRAMES.forEach(timeframe => {
+    const interval = TIMEFRAME_INTERVALS[timeframe];
+    // Daily bars from the vendor are more complete than a month of intraday history
+    const source = interval.endsWith("m") || interval.endsWith("h") ? intraday : daily;
+    candles[timeframe] = resampleOHLC(source, interval, session);
+  });
+  
+  return candles;
+}
+
+// For different timeframes, we'll use different configurations
+export const SUPERTREND_CONFIGS: Record<Timeframe, SupertrendConfig> = {
+  "45M": { atrPeriod: 7, factor: 2.0 },   // Very sensitive for 45min
+  "2H": { atrPeriod: 8, factor: 2.5 },    // Sensitive for 2H
+  "4H": { atrPeriod: 10, factor: 2.8 },   // Moderate for 4H
+  "1D": { atrPeriod: 12, factor: 3.0 },   // Standard daily configuration
+  "3D": { atrPeriod: 14, factor: 3.5 },   // Less sensitive for 3D
+  "1W": { atrPeriod: 15, factor: 4.0 }    // Least sensitive for weekly
+};
+
+/**
+ * Supertrend config for every timeframe: the defaults above, overridden by
+ * each scope's saved settings in turn (later scopes win)
+ */
+export async function resolveSupertrendConfigs(...scopes: SettingsScope[]): Promise<Record<Timeframe, SupertrendConfig>> {
+  const configs = { ...SUPERTREND_CONFIGS };
+  for (const scope of scopes) {
+    Object.assign(configs, await getSupertrendOverrides(scope));
+  }
+  return configs;
+}
+
+/**
+ * Supertrend configs a user sees for an asset, as its scan applies them: the
+ * defaults, then the asset's universe settings, then the user's own
+ */
+export async function getUserSupertrendConfigs(
+  userId: number | null,
+  universe: string | null = null
+): Promise<Record<Timeframe, SupertrendConfig>> {
+  const scopes: SettingsScope[] = [];
+  if (universe) {
+    scopes.push({ universe });
+  }
+  if (userId !== null) {
+    scopes.push({ userId });
+  }
+  return resolveSupertrendConfigs(...scopes);
+}
+
+/**
+ * Calculate Supertrend for each timeframe on candles of that interval
+ */
+function calculateSupertrendForTimeframes(
+  candles: Record<Timeframe, OHLCData[]>,
+  configs: Record<Timeframe, SupertrendConfig>
+): Record<Timeframe, SupertrendResult | null> {
+  const result = {
+    "45M": null as SupertrendResult | null,
+    "2H": null as SupertrendResult | null,
+    "4H": null as SupertrendResult | null,
+    "1D": null as SupertrendResult | null,
+    "3D": null as SupertrendResult | null,
+    "1W": null as SupertrendResult | null
+  };
+
+  try {
+    TIMEFRAMES.forEach(timeframe => {
+      const config = configs[timeframe];
+      const timeframeData = candles[timeframe];
+      
+      console.log(`${timeframe}: Using ${timeframeData.length} candles, need ${config.atrPeriod + 1}`);
+      
+      if (timeframeData.length >= config.atrPeriod + 1) {
+        try {
+          const supertrendResult = getLatestSupertrendSignal(timeframeData, config);
+          result[timeframe] = supertrendResult;
+          console.log(`${timeframe} Supertrend calculated:`, supertrendResult ? 'Success' : 'Failed');
+        } catch (error) {
+          console.error(`Error calculating Supertrend for ${timeframe}:`, error);
+        }
+      } else {
+        console.log(`${timeframe}: Insufficient data (${timeframeData.length} < ${config.atrPeriod + 1})`);
+      }
+    });
+  } catch (error) {
+    console.error('Error calculating Supertrend for timeframes:', error);
+  }
+
+  return result;
+}
+
+/**
+ * Compute trend and Supertrend columns for one asset
+ */
+function analyzeAsset(asset: AssetCandles, configs: Record<Timeframe, SupertrendConfig>): ProcessedAsset | null {
+  if (asset.daily.length === 0) {
+    return null;
+  }
+  
+  // Prefer the latest intraday close when we have one
+  const latest = asset.intraday[asset.intraday.length - 1] || asset.daily[asset.daily.length - 1];
+  
+  // Build genuine candles for every displayed interval
+  const timeframeCandles = buildTimeframeCandles(asset);
+  const supertrendData = calculateSupertrendForTimeframes(timeframeCandles, configs);
+  const indicators = Object.fromEntries(
+    TIMEFRAMES.map(timeframe => [timeframe, getLatestIndicators(timeframeCandles[timeframe])])
+  ) as Record<Timeframe, IndicatorSnapshot>;
+  const trends = Object.fromEntries(
+    TIMEFRAMES.map(timeframe => [timeframe, analyzeTrend(timeframeCandles[timeframe])])
+  ) as Record<Timeframe, TrendData>;
+  
+  return {
+    name: asset.info.name,
+    symbol: asset.info.symbol,
+    price: latest.close,
+    type: asset.info.type,
+    exchange: asset.info.exchange,
+    sector: asset.info.sector,
+    "45M": trends["45M"],
+    "2H": trends["2H"],
+    "4H": trends["4H"],
+    "1D": trends["1D"],
+    "3D": trends["3D"],
+    "1W": trends["1W"],
+    supertrend: supertrendData,
+    indicators,
+    confluence: calculateConfluence(trends, supertrendData),
+    ohlc: asset.daily.slice(-60) // 60 days of OHLC data for the chart
+  };
+}
+
+function analyzeAssets(assets: AssetCandles[], configs: Record<Timeframe, SupertrendConfig>): ProcessedAsset[] {
+  const analyzed: ProcessedAsset[] = [];
+  assets.forEach((asset) => {
+    try {
+      const result = analyzeAsset(asset, configs);
+      if (result) {
+        analyzed.push(result);
+      }
+    } catch (error) {
+      console.error(`Error processing ${asset.info.type} ${asset.info.symbol}:`, error);
+    }
+  });
+  return analyzed;
+}
+
+export interface AssetSeries {
+  symbol: string;
+  type: AssetType;
+  timeframe: Timeframe;
+  candles: OHLCData[];
+  supertrend: SupertrendResult[]; // One point per candle from the first with a full ATR period
+}
+
+/**
+ * Candles of one asset resampled to a timeframe
+ */
+export async function getTimeframeCandles(type: AssetType, symbol: string, timeframe: Timeframe): Promise<OHLCData[]> {
+  const provider = getMarketDataProvider(type);
+  const interval = TIMEFRAME_INTERVALS[timeframe];
+  const intraday = interval.endsWith("m") || interval.endsWith("h");
+
+  const source = await getCandles(provider, symbol, intraday ? "15m" : "1D");
+  return resampleOHLC(source, interval, provider.session);
+}
+
+/**
+ * Candles and the full Supertrend series of one asset on one timeframe, for the chart
+ */
+export async function getAssetSeries(
+  type: AssetType,
+  symbol: string,
+  timeframe: Timeframe,
+  config: SupertrendConfig = SUPERTREND_CONFIGS[timeframe]
+): Promise<AssetSeries> {
+  const candles = await getTimeframeCandles(type, symbol, timeframe);
+
+  let supertrend: SupertrendResult[] = [];
+  try {
+    supertrend = calculateSupertrend(candles, config);
+  } catch (error) {
+    console.warn(`No ${timeframe} Supertrend for ${symbol}:`, error);
+  }
+
+  return { symbol: symbol.toUpperCase(), type, timeframe, candles, supertrend };
+}
+
+/**
+ * Analyse a universe's fetched candles with the given Supertrend configs
+ */
+function analyzeUniverse(universe: Universe, data: AssetCandles[], configs: Record<Timeframe, SupertrendConfig>): ProcessedAsset[] {
+  return analyzeAssets(data, configs).map(asset => ({ ...asset, universe: universe.slug }));
+}
+
+/**
+ * Scan every asset in a universe, with the universe's saved Supertrend settings
+ * and then the given user's
+ */
+export async function scanUniverse(universe: Universe, userId: number | null = null): Promise<ProcessedAsset[]> {
+  const data = await fetchUniverseData(universe);
+  return analyzeUniverse(universe, data, await getUserSupertrendConfigs(userId, universe.slug));
+}
+
+/**
+ * Supertrend of every bar of each timeframe of a fetched asset, oldest first
+ */
+function supertrendSeries(asset: AssetCandles, configs: Record<Timeframe, SupertrendConfig>): Partial<Record<Timeframe, SupertrendBar[]>> {
+  const candles = buildTimeframeCandles(asset);
+  const series: Partial<Record<Timeframe, SupertrendBar[]>> = {};
+  TIMEFRAMES.forEach(timeframe => {
+    const closes = new Map(candles[timeframe].map(candle => [candle.time, candle.close]));
+    try {
+      series[timeframe] = calculateSupertrend(candles[timeframe], configs[timeframe]).map(({ time, direction, value }) => ({
+        time,
+        direction,
+        value,
+        close: closes.get(time) ?? value
+      }));
+    } catch (error) {
+      console.warn(`No ${timeframe} Supertrend series for ${asset.info.symbol}:`, error);
+    }
+  });
+  return series;
+}
+
+// One asset per type and ticker, for assets that are in several universes
+function uniqueAssets(assets: ProcessedAsset[]): ProcessedAsset[] {
+  return Array.from(new Map(assets.map(asset => [`${asset.type}:${asset.symbol}`, asset])).values());
+}
+
+/**
+ * Scan every universe and store a snapshot of each, for /api/data to serve,
+ * along with one per user with Supertrend settings of their own. Then log
+ * signal changes and check alert rules against the results.
+ */
+export async function runScheduledScan(): Promise<ScanSnapshot[]> {
+  const universes = await listAllUniverses();
+  const snapshots: ScanSnapshot[] = [];
+  const fetched: { universe: Universe; data: AssetCandles[]; configs: Record<Timeframe, SupertrendConfig> }[] = [];
+
+  // One universe at a time; vendors rate-limit per key anyway
+  for (const universe of universes) {
+    try {
+      const data = await fetchUniverseData(universe);
+      const configs = await getUserSupertrendConfigs(null, universe.slug);
+      snapshots.push(await saveScanSnapshot(universe.slug, analyzeUniverse(universe, data, configs)));
+      fetched.push({ universe, data, configs });
+    } catch (error) {
+      console.error(`Scheduled scan of ${universe.slug} failed:`, error);
+    }
+  }
+
+  const scanned = uniqueAssets(snapshots.flatMap(snapshot => snapshot.assets));
+  // Each asset's series comes from the universe its scanned row came from
+  const scannedIn = new Map(scanned.map(asset => [`${asset.type}:${asset.symbol}`, asset.universe]));
+  const sources = new Map<string, { data: AssetCandles; configs: Record<Timeframe, SupertrendConfig> }>();
+  fetched.forEach(({ universe, data, configs }) => {
+    data.forEach(asset => {
+      const key = `${asset.info.type}:${asset.info.symbol}`;
+      if (scannedIn.get(key) === universe.slug) {
+        sources.set(key, { data: asset, configs });
+      }
+    });
+  });
+  // User scans below add their own sources; each series is worked out once for signals and alerts
+  const userSources = new Map<number, typeof sources>();
+  const seriesCache = new Map<string, Partial<Record<Timeframe, SupertrendBar[]>>>();
+  const seriesFor = (asset: ProcessedAsset, userId: number | null = null) => {
+    const key = `${asset.type}:${asset.symbol}`;
+    const cacheKey = `${userId ?? ''}:${key}`;
+    if (!seriesCache.has(cacheKey)) {
+      const source = (userId === null ? sources : userSources.get(userId))?.get(key);
+      seriesCache.set(cacheKey, source ? supertrendSeries(source.data, source.configs) : {});
+    }
+    return seriesCache.get(cacheKey) as Partial<Record<Timeframe, SupertrendBar[]>>;
+  };
+  const changes = await recordSignalEvents(scanned, asset => seriesFor(asset));
+  if (changes > 0) {
+    console.log(`Recorded ${changes} signal changes`);
+  }
+
+  // Users with Supertrend settings of their own get the same candles analysed
+  // with them, for /api/data to serve them and to check their alert rules with
+  const userAssets = new Map<number, ProcessedAsset[]>();
+  for (const userId of await listUsersWithSupertrendSettings()) {
+    const own: ProcessedAsset[] = [];
+    const ownSources: typeof sources = new Map();
+    for (const { universe, data } of fetched.filter(({ universe }) => universe.userId === null || universe.userId === userId)) {
+      try {
+        const configs = await getUserSupertrendConfigs(userId, universe.slug);
+        own.push(...(await saveScanSnapshot(universe.slug, analyzeUniverse(universe, data, configs), userId)).assets);
+        // The last universe with an asset wins, as in uniqueAssets
+        data.forEach(asset => ownSources.set(`${asset.info.type}:${asset.info.symbol}`, { data: asset, configs }));
+      } catch (error) {
+        console.error(`Scheduled scan of ${universe.slug} for user ${userId} failed:`, error);
+      }
+    }
+    userAssets.set(userId, uniqueAssets(own));
+    userSources.set(userId, ownSources);
+  }
+
+  const fired = await evaluateAlerts(scanned, userAssets, seriesFor);
+  if (fired > 0) {
+    console.log(`Fired ${fired} alerts`);
+  }
+
+  return snapshots;
+}
@@ -0,0 +1,356 @@
+/**
+ * Screener
+ * A small filter language over scan results, e.g.
+ *   st.1D = up AND rsi.4H < 30 AND price > 50 AND trend.1W = uptrend
+ * Comparisons are joined with AND, OR, NOT and parentheses; AND binds tighter
+ * than OR. A comparison against missing data (e.g. RSI without enough bars)
+ * is unknown rather than false, and stays unknown through NOT, as in SQL: an
+ * asset only matches when the whole filter is true.
+ */
+
+import type { ProcessedAsset } from "./scanner";
+import { TIMEFRAMES, type Timeframe } from "./resample";
+
+export type ComparisonOperator = "=" | "!=" | "<" | "<=" | ">" | ">=";
+
+export interface FieldRef {
+  field: string;
+  timeframe: Timeframe | null;
+}
+
+export type ScreenerExpression =
+  | { type: "and" | "or"; left: ScreenerExpression; right: ScreenerExpression }
+  | { type: "not"; operand: ScreenerExpression }
+  | { type: "compare"; left: FieldRef; operator: ComparisonOperator; right: number | string | FieldRef };
+
+export interface ScreenerError {
+  message: string;
+  position: number; // Offset into the filter text
+}
+
+export type ScreenerParseResult =
+  | { expression: ScreenerExpression; error: null }
+  | { expression: null; error: ScreenerError };
+
+// Longest accepted filter
+export const MAX_FILTER_LENGTH = 500;
+
+interface FieldSpec {
+  kind: "number" | "text";
+  perTimeframe: boolean;
+  values?: string[]; // Allowed values of a text field, lowercase
+  get: (asset: ProcessedAsset, timeframe: Timeframe) => number | string | null;
+}
+
+function field(
+  kind: FieldSpec["kind"],
+  get: FieldSpec["get"],
+  options: { perTimeframe?: boolean; values?: string[] } = {}
+): FieldSpec {
+  return { kind, get, perTimeframe: options.perTimeframe ?? false, values: options.values };
+}
+
+// Fields are per timeframe when written as name.TF, e.g. rsi.4H
+const FIELDS: Record<string, FieldSpec> = {
+  price: field("number", asset => asset.price ?? null),
+  symbol: field("text", asset => asset.symbol),
+  name: field("text", asset => asset.name),
+  type: field("text", asset => asset.type, { values: ["stock", "crypto"] }),
+  exchange: field("text", asset => asset.exchange ?? null),
+  sector: field("text", asset => asset.sector ?? null),
+  confluence: field("number", asset => asset.confluence?.score ?? null),
+  aligned: field("text", asset => (asset.confluence ? asset.confluence.aligned ?? "none" : null), {
+    values: ["bullish", "bearish", "none"]
+  }),
+  st: field("text", (asset, tf) => asset.supertrend?.[tf]?.direction ?? null, { perTimeframe: true, values: ["up", "down"] }),
+  signal: field("text", (asset, tf) => asset.supertrend?.[tf]?.signal ?? null, {
+    perTimeframe: true,
+    values: ["buy", "sell", "hold"]
+  }),
+  stvalue: field("number", (asset, tf) => asset.supertrend?.[tf]?.value ?? null, { perTimeframe: true }),
+  trend: field("text", (asset, tf) => asset[tf].trend, { perTimeframe: true, values: ["uptrend", "downtrend", "sideways"] }),
+  adx: field("number", (asset, tf) => asset[tf].strength, { perTimeframe: true }),
+  bars: field("number", (asset, tf) => asset[tf].bars, { perTimeframe: true }),
+  rsi: field("number", (asset, tf) => asset.indicators?.[tf]?.rsi ?? null, { perTimeframe: true }),
+  macd: field("number", (asset, tf) => asset.indicators?.[tf]?.macd?.histogram ?? null, { perTimeframe: true }),
+  sma20: field("number", (asset, tf) => asset.indicators?.[tf]?.sma20 ?? null, { perTimeframe: true }),
+  sma50: field("number", (asset, tf) => asset.indicators?.[tf]?.sma50 ?? null, { perTimeframe: true }),
+  ema20: field("number", (asset, tf) => asset.indicators?.[tf]?.ema20 ?? null, { perTimeframe: true }),
+  ema50: field("number", (asset, tf) => asset.indicators?.[tf]?.ema50 ?? null, { perTimeframe: true }),
+  wma20: field("number", (asset, tf) => asset.indicators?.[tf]?.wma20 ?? null, { perTimeframe: true }),
+  bbupper: field("number", (asset, tf) => asset.indicators?.[tf]?.bollinger?.upper ?? null, { perTimeframe: true }),
+  bblower: field("number", (asset, tf) => asset.indicators?.[tf]?.bollinger?.lower ?? null, { perTimeframe: true })
+};
+
+export const SCREENER_FIELDS = Object.keys(FIELDS);
+
+interface Token {
+  type: "word" | "number" | "string" | "operator" | "(" | ")" | "end";
+  text: string;
+  position: number;
+}
+
+const OPERATORS = ["<=", ">=", "!=", "==", "=", "<", ">"];
+
+function tokenize(query: string): Token[] | ScreenerError {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < query.length) {
+    const char = query[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+    if (char === "(" || char === ")") {
+      tokens.push({ type: char, text: char, position: i });
+      i++;
+      continue;
+    }
+    const operator = OPERATORS.find(op => query.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: "operator", text: operator === "==" ? "=" : operator, position: i });
+      i += operator.length;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      const end = query.indexOf(char, i + 1);
+      if (end === -1) {
+        return { message: "Unclosed quote", position: i };
+      }
+      tokens.push({ type: "string", text: query.slice(i + 1, end), position: i });
+      i = end + 1;
+      continue;
+    }
+    const number = /^-?\d+(\.\d+)?(?![\w.])/.exec(query.slice(i));
+    if (number) {
+      tokens.push({ type: "number", text: number[0], position: i });
+      i += number[0].length;
+      continue;
+    }
+    const word = /^[A-Za-z_][\w-]*(\.[\w-]+)?/.exec(query.slice(i));
+    if (word) {
+      tokens.push({ type: "word", text: word[0], position: i });
+      i += word[0].length;
+      continue;
+    }
+    return { message: `Unexpected character "${char}"`, position: i };
+  }
+  tokens.push({ type: "end", text: "", position: query.length });
+  return tokens;
+}
+
+function isKeyword(token: Token, keyword: "AND" | "OR" | "NOT"): boolean {
+  return token.type === "word" && token.text.toUpperCase() === keyword;
+}
+
+function describe(token: Token): string {
+  return token.type === "end" ? "end of filter" : `"${token.text}"`;
+}
+
+// Thrown inside the parser and turned into a ScreenerError by parseScreenerFilter
+function fail(message: string, position: number): never {
+  throw Object.assign(new Error(message), { position });
+}
+
+/**
+ * Field name with an optional timeframe suffix, checked against FIELDS
+ */
+function resolveField(token: Token): FieldRef {
+  const [name, suffix] = token.text.split(".");
+  const spec = FIELDS[name.toLowerCase()];
+  if (!spec) {
+    fail(`Unknown field "${name}"`, token.position);
+  }
+  if (!spec.perTimeframe) {
+    if (suffix !== undefined) {
+      fail(`"${name}" has no timeframe`, token.position);
+    }
+    return { field: name.toLowerCase(), timeframe: null };
+  }
+  if (suffix === undefined) {
+    fail(`"${name}" needs a timeframe, e.g. ${name}.1D`, token.position);
+  }
+  const timeframe = suffix.toUpperCase() as Timeframe;
+  if (!TIMEFRAMES.includes(timeframe)) {
+    fail(`Unknown timeframe "${suffix}" (use ${TIMEFRAMES.join(", ")})`, token.position + name.length + 1);
+  }
+  return { field: name.toLowerCase(), timeframe };
+}
+
+function parseTokens(tokens: Token[]): ScreenerExpression {
+  let index = 0;
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+
+  const parseComparison = (): ScreenerExpression => {
+    const fieldToken = next();
+    if (fieldToken.type !== "word" || isKeyword(fieldToken, "AND") || isKeyword(fieldToken, "OR")) {
+      fail(`Expected a field, found ${describe(fieldToken)}`, fieldToken.position);
+    }
+    const left = resolveField(fieldToken);
+    const spec = FIELDS[left.field];
+
+    const operatorToken = next();
+    if (operatorToken.type !== "operator") {
+      fail(`Expected a comparison after "${fieldToken.text}", found ${describe(operatorToken)}`, operatorToken.position);
+    }
+    const operator = operatorToken.text as ComparisonOperator;
+    if (spec.kind === "text" && operator !== "=" && operator !== "!=") {
+      fail(`"${fieldToken.text}" can only be compared with = or !=`, operatorToken.position);
+    }
+
+    const valueToken = next();
+    if (spec.kind === "number") {
+      if (valueToken.type === "number") {
+        return { type: "compare", left, operator, right: Number(valueToken.text) };
+      }
+      if (valueToken.type === "word" && FIELDS[valueToken.text.split(".")[0].toLowerCase()]) {
+        const right = resolveField(valueToken);
+        if (FIELDS[right.field].kind !== "number") {
+          fail(`"${valueToken.text}" is not a number field`, valueToken.position);
+        }
+        return { type: "compare", left, operator, right };
+      }
+      fail(`Expected a number after "${fieldToken.text} ${operator}", found ${describe(valueToken)}`, valueToken.position);
+    }
+
+    if (valueToken.type !== "word" && valueToken.type !== "string" && valueToken.type !== "number") {
+      fail(`Expected a value after "${fieldToken.text} ${operator}", found ${describe(valueToken)}`, valueToken.position);
+    }
+    const value = valueToken.text.toLowerCase();
+    if (spec.values && !spec.values.includes(value)) {
+      fail(`"${fieldToken.text}" must be one of ${spec.values.join(", ")}`, valueToken.position);
+    }
+    return { type: "compare", left, operator, right: value };
+  };
+
+  const parseUnary = (): ScreenerExpression => {
+    const token = peek();
+    if (isKeyword(token, "NOT")) {
+      next();
+      return { type: "not", operand: parseUnary() };
+    }
+    if (token.type === "(") {
+      next();
+      const expression = parseOr();
+      const close = next();
+      if (close.type !== ")") {
+        fail(`Expected ")", found ${describe(close)}`, close.position);
+      }
+      return expression;
+    }
+    return parseComparison();
+  };
+
+  const parseAnd = (): ScreenerExpression => {
+    let left = parseUnary();
+    while (isKeyword(peek(), "AND")) {
+      next();
+      left = { type: "and", left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseOr = (): ScreenerExpression => {
+    let left = parseAnd();
+    while (isKeyword(peek(), "OR")) {
+      next();
+      left = { type: "or", left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  const expression = parseOr();
+  const trailing = peek();
+  if (trailing.type !== "end") {
+    fail(`Expected AND or OR, found ${describe(trailing)}`, trailing.position);
+  }
+  return expression;
+}
+
+/**
+ * Parse a screener filter, reporting the first error and where it is
+ */
+export function parseScreenerFilter(query: string): ScreenerParseResult {
+  if (query.length > MAX_FILTER_LENGTH) {
+    return { expression: null, error: { message: `Filter is longer than ${MAX_FILTER_LENGTH} characters`, position: MAX_FILTER_LENGTH } };
+  }
+  const tokens = tokenize(query);
+  if (!Array.isArray(tokens)) {
+    return { expression: null, error: tokens };
+  }
+  if (tokens.length === 1) {
+    return { expression: null, error: { message: "Filter is empty", position: 0 } };
+  }
+
+  try {
+    return { expression: parseTokens(tokens), error: null };
+  } catch (error) {
+    const { message, position } = error as Error & { position?: number };
+    if (position === undefined) {
+      throw error;
+    }
+    return { expression: null, error: { message, position } };
+  }
+}
+
+function readField(asset: ProcessedAsset, ref: FieldRef): number | string | null {
+  return FIELDS[ref.field].get(asset, ref.timeframe ?? "1D");
+}
+
+function compare(actual: number | string, operator: ComparisonOperator, expected: number | string): boolean {
+  switch (operator) {
+    case "=":
+      return actual === expected;
+    case "!=":
+      return actual !== expected;
+    case "<":
+      return actual < expected;
+    case "<=":
+      return actual <= expected;
+    case ">":
+      return actual > expected;
+    case ">=":
+      return actual >= expected;
+  }
+}
+
+/**
+ * Three-valued result of a filter for an asset: null when it depends on missing data
+ */
+function evaluate(asset: ProcessedAsset, expression: ScreenerExpression): boolean | null {
+  switch (expression.type) {
+    case "and": {
+      const left = evaluate(asset, expression.left);
+      const right = evaluate(asset, expression.right);
+      return left === false || right === false ? false : left === null || right === null ? null : true;
+    }
+    case "or": {
+      const left = evaluate(asset, expression.left);
+      const right = evaluate(asset, expression.right);
+      return left === true || right === true ? true : left === null || right === null ? null : false;
+    }
+    case "not": {
+      const operand = evaluate(asset, expression.operand);
+      return operand === null ? null : !operand;
+    }
+    case "compare": {
+      const actual = readField(asset, expression.left);
+      const expected = typeof expression.right === "object" ? readField(asset, expression.right) : expression.right;
+      if (actual === null || expected === null) {
+        return null;
+      }
+      if (typeof actual === "string") {
+        return compare(actual.toLowerCase(), expression.operator, String(expected));
+      }
+      return compare(actual, expression.operator, expected);
+    }
+  }
+}
+
+/**
+ * Whether an asset passes a parsed filter
+ */
+export function matchesScreenerFilter(asset: ProcessedAsset, expression: ScreenerExpression): boolean {
+  return evaluate(asset, expression) === true;
+}
@@ -0,0 +1,209 @@
+/**
+ * Signal Events
+ * History of Supertrend direction changes and trend-label changes per asset and
+ * timeframe, recorded by the scheduled scan: every Supertrend flip since the last
+ * recorded bar, and each trend label that differs from the last recorded one.
+ * Kept in memory when no database is configured.
+ */
+
+import { sql } from '@vercel/postgres';
+import type { ProcessedAsset } from './scanner';
+import { TIMEFRAMES, type Timeframe } from './resample';
+import type { AssetType } from './providers';
+import { hasDatabase, memoryStore } from './memoryStore';
+
+// 'supertrend' changes between up and down; 'trend' between uptrend, downtrend and sideways
+export type SignalKind = 'supertrend' | 'trend';
+
+export interface SignalEvent {
+  assetType: AssetType;
+  symbol: string;
+  timeframe: Timeframe;
+  kind: SignalKind;
+  previous: string | null; // null for the first state recorded
+  current: string;
+  price: number;
+  barTime: string; // Bar the change happened on, or was first seen on
+  createdAt: string;
+}
+
+// Supertrend direction and line of one bar, with its close
+export interface SupertrendBar {
+  time: string;
+  direction: 'up' | 'down';
+  value: number;
+  close: number;
+}
+
+interface RecordedState {
+  current: string;
+  barTime: string;
+}
+
+// Events kept per process without a database
+const MEMORY_LIMIT = 5000;
+
+const memoryEvents = memoryStore('signalEvents', (): SignalEvent[] => []);
+
+function stateKey(assetType: string, symbol: string, timeframe: string, kind: string): string {
+  return `${assetType}:${symbol}:${timeframe}:${kind}`;
+}
+
+function toEvent(row: Record<string, unknown>): SignalEvent {
+  return {
+    assetType: row.asset_type as AssetType,
+    symbol: row.symbol as string,
+    timeframe: row.timeframe as Timeframe,
+    kind: row.kind as SignalKind,
+    previous: (row.previous as string | null) ?? null,
+    current: row.current as string,
+    price: row.price as number,
+    barTime: row.bar_time as string,
+    createdAt: new Date(row.created_at as string).toISOString()
+  };
+}
+
+/**
+ * Current trend label of every timeframe of an asset, with the bar it began on
+ */
+function currentTrends(asset: ProcessedAsset): { timeframe: Timeframe; state: string; barTime: string }[] {
+  return TIMEFRAMES
+    .filter(timeframe => asset[timeframe].startDate)
+    .map(timeframe => ({ timeframe, state: asset[timeframe].trend, barTime: asset[timeframe].startDate as string }));
+}
+
+/**
+ * Supertrend flips in a series of bars after the last recorded state, each on
+ * its own bar. With nothing recorded yet, the current direction from the bar
+ * it began on.
+ */
+function supertrendChanges(bars: SupertrendBar[], last: RecordedState | undefined): { previous: string | null; bar: SupertrendBar }[] {
+  if (bars.length === 0) {
+    return [];
+  }
+  if (!last) {
+    let start = bars.length - 1;
+    while (start > 0 && bars[start - 1].direction === bars[start].direction) {
+      start--;
+    }
+    return [{ previous: null, bar: bars[start] }];
+  }
+
+  const changes: { previous: string | null; bar: SupertrendBar }[] = [];
+  const since = Date.parse(last.barTime);
+  let previous = last.current;
+  bars
+    .filter(bar => Date.parse(bar.time) > since)
+    .forEach(bar => {
+      if (bar.direction !== previous) {
+        changes.push({ previous, bar });
+        previous = bar.direction;
+      }
+    });
+  return changes;
+}
+
+async function latestStates(): Promise<Map<string, RecordedState>> {
+  if (!hasDatabase()) {
+    const states = new Map<string, RecordedState>();
+    memoryEvents.forEach(event => {
+      states.set(stateKey(event.assetType, event.symbol, event.timeframe, event.kind), { current: event.current, barTime: event.barTime });
+    });
+    return states;
+  }
+
+  const { rows } = await sql`
+    SELECT DISTINCT ON (asset_type, symbol, timeframe, kind) asset_type, symbol, timeframe, kind, current, bar_time
+    FROM signal_events
+    ORDER BY asset_type, symbol, timeframe, kind, bar_time::timestamptz DESC, id DESC
+  `;
+  return new Map(rows.map(row => [
+    stateKey(row.asset_type, row.symbol, row.timeframe, row.kind),
+    { current: row.current, barTime: row.bar_time }
+  ]));
+}
+
+/**
+ * Record every Supertrend flip since the last recorded bar, with the bar's time
+ * and close, and every trend label that differs from the last recorded one.
+ * supertrendSeries gives an asset's Supertrend bars per timeframe, oldest first.
+ * Returns the number of events stored.
+ */
+export async function recordSignalEvents(
+  assets: ProcessedAsset[],
+  supertrendSeries: (asset: ProcessedAsset) => Partial<Record<Timeframe, SupertrendBar[]>>
+): Promise<number> {
+  const previousStates = await latestStates();
+  const createdAt = new Date().toISOString();
+
+  const events: SignalEvent[] = [];
+  assets.forEach(asset => {
+    if (asset.price === undefined) {
+      return;
+    }
+    const base = { assetType: asset.type, symbol: asset.symbol };
+
+    const series = supertrendSeries(asset);
+    TIMEFRAMES.forEach(timeframe => {
+      const last = previousStates.get(stateKey(asset.type, asset.symbol, timeframe, 'supertrend'));
+      supertrendChanges(series[timeframe] ?? [], last).forEach(({ previous, bar }) => {
+        events.push({ ...base, timeframe, kind: 'supertrend', previous, current: bar.direction, price: bar.close, barTime: bar.time, createdAt });
+      });
+    });
+
+    currentTrends(asset).forEach(({ timeframe, state, barTime }) => {
+      const previous = previousStates.get(stateKey(asset.type, asset.symbol, timeframe, 'trend'))?.current ?? null;
+      if (previous !== state) {
+        events.push({ ...base, timeframe, kind: 'trend', previous, current: state, price: asset.price as number, barTime, createdAt });
+      }
+    });
+  });
+
+  if (!hasDatabase()) {
+    memoryEvents.push(...events);
+    memoryEvents.splice(0, Math.max(0, memoryEvents.length - MEMORY_LIMIT));
+    return events.length;
+  }
+
+  let recorded = 0;
+  for (const event of events) {
+    const { rowCount } = await sql`
+      INSERT INTO signal_events (asset_type, symbol, timeframe, kind, previous, current, price, bar_time)
+      VALUES (${event.assetType}, ${event.symbol}, ${event.timeframe}, ${event.kind},
+              ${event.previous}, ${event.current}, ${event.price}, ${event.barTime})
+      ON CONFLICT (asset_type, symbol, timeframe, kind, bar_time, current) DO NOTHING
+    `;
+    recorded += rowCount ?? 0;
+  }
+  return recorded;
+}
+
+/**
+ * Signal history of one symbol, latest bar first, optionally for one timeframe
+ */
+export async function listSignalEvents(
+  assetType: AssetType,
+  symbol: string,
+  timeframe: Timeframe | null = null,
+  limit = 100
+): Promise<SignalEvent[]> {
+  const upper = symbol.toUpperCase();
+  if (!hasDatabase()) {
+    return memoryEvents
+      .filter(event => event.assetType === assetType && event.symbol === upper && (timeframe === null || event.timeframe === timeframe))
+      .map((event, index) => ({ event, index }))
+      .sort((a, b) => Date.parse(b.event.barTime) - Date.parse(a.event.barTime) || b.index - a.index)
+      .map(({ event }) => event)
+      .slice(0, limit);
+  }
+
+  // Flips backfilled in one scan share a created_at, so the order is by bar
+  const { rows } = await sql`
+    SELECT asset_type, symbol, timeframe, kind, previous, current, price, bar_time, created_at
+    FROM signal_events
+    WHERE asset_type = ${assetType} AND symbol = ${upper} AND (${timeframe}::text IS NULL OR timeframe = ${timeframe})
+    ORDER BY bar_time::timestamptz DESC, id DESC
+    LIMIT ${limit}
+  `;
+  return rows.map(toEvent);
+}
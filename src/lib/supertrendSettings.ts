@@ -0,0 +1,114 @@
+/**
+ * Supertrend Settings
+ * Per-timeframe configs (ATR period, factor, band source, ATR smoothing) that
+ * replace the scanner defaults for a user or a universe.
+ * Kept in memory when no database is configured.
+ */
+
+import { sql } from '@vercel/postgres';
+import type { SupertrendConfig } from './indicators';
+import type { Timeframe } from './resample';
+import { hasDatabase, memoryStore } from './memoryStore';
+import { deleteUserScanSnapshots } from './scanSnapshots';
+
+// Whose defaults: a logged-in user's, or a universe's
+export type SettingsScope = { userId: number } | { universe: string };
+
+export type SupertrendOverrides = Partial<Record<Timeframe, SupertrendConfig>>;
+
+const memorySettings = memoryStore('supertrendSettings', () => new Map<string, SupertrendOverrides>());
+
+function scopeKey(scope: SettingsScope): string {
+  return 'userId' in scope ? `user:${scope.userId}` : `universe:${scope.universe}`;
+}
+
+/**
+ * Timeframes the scope has its own config for
+ */
+export async function getSupertrendOverrides(scope: SettingsScope): Promise<SupertrendOverrides> {
+  if (!hasDatabase()) {
+    return memorySettings.get(scopeKey(scope)) ?? {};
+  }
+
+  const userId = 'userId' in scope ? scope.userId : null;
+  const universe = 'universe' in scope ? scope.universe : null;
+  const { rows } = await sql`
+    SELECT timeframe, atr_period, factor, source, atr_smoothing
+    FROM supertrend_settings
+    WHERE (${userId}::integer IS NOT NULL AND user_id = ${userId})
+       OR (${universe}::text IS NOT NULL AND universe_slug = ${universe})
+  `;
+  return Object.fromEntries(
+    rows.map(row => [
+      row.timeframe,
+      { atrPeriod: row.atr_period, factor: row.factor, source: row.source, atrSmoothing: row.atr_smoothing }
+    ])
+  ) as SupertrendOverrides;
+}
+
+/**
+ * Save a scope's config for a timeframe, exactly as given: a source or ATR
+ * smoothing it leaves out is saved as hl2 or rma
+ */
+export async function saveSupertrendOverride(scope: SettingsScope, timeframe: Timeframe, config: SupertrendConfig): Promise<void> {
+  const { atrPeriod, factor, source = 'hl2', atrSmoothing = 'rma' } = config;
+
+  if (!hasDatabase()) {
+    const key = scopeKey(scope);
+    memorySettings.set(key, { ...memorySettings.get(key), [timeframe]: { atrPeriod, factor, source, atrSmoothing } });
+  } else if ('userId' in scope) {
+    await sql`
+      INSERT INTO supertrend_settings (user_id, timeframe, atr_period, factor, source, atr_smoothing)
+      VALUES (${scope.userId}, ${timeframe}, ${atrPeriod}, ${factor}, ${source}, ${atrSmoothing})
+      ON CONFLICT (user_id, timeframe) WHERE user_id IS NOT NULL
+      DO UPDATE SET atr_period = EXCLUDED.atr_period, factor = EXCLUDED.factor,
+        source = EXCLUDED.source, atr_smoothing = EXCLUDED.atr_smoothing, updated_at = NOW()
+    `;
+  } else {
+    await sql`
+      INSERT INTO supertrend_settings (universe_slug, timeframe, atr_period, factor, source, atr_smoothing)
+      VALUES (${scope.universe}, ${timeframe}, ${atrPeriod}, ${factor}, ${source}, ${atrSmoothing})
+      ON CONFLICT (universe_slug, timeframe) WHERE universe_slug IS NOT NULL
+      DO UPDATE SET atr_period = EXCLUDED.atr_period, factor = EXCLUDED.factor,
+        source = EXCLUDED.source, atr_smoothing = EXCLUDED.atr_smoothing, updated_at = NOW()
+    `;
+  }
+
+  // The user's own snapshots were scanned with the old settings
+  if ('userId' in scope) {
+    await deleteUserScanSnapshots(scope.userId);
+  }
+}
+
+/**
+ * Drop a scope's config for a timeframe so the defaults apply again
+ */
+export async function deleteSupertrendOverride(scope: SettingsScope, timeframe: Timeframe): Promise<void> {
+  if (!hasDatabase()) {
+    const key = scopeKey(scope);
+    const remaining = { ...memorySettings.get(key) };
+    delete remaining[timeframe];
+    memorySettings.set(key, remaining);
+  } else if ('userId' in scope) {
+    await sql`DELETE FROM supertrend_settings WHERE user_id = ${scope.userId} AND timeframe = ${timeframe}`;
+  } else {
+    await sql`DELETE FROM supertrend_settings WHERE universe_slug = ${scope.universe} AND timeframe = ${timeframe}`;
+  }
+
+  if ('userId' in scope) {
+    await deleteUserScanSnapshots(scope.userId);
+  }
+}
+
+/**
+ * Users who have Supertrend settings of their own, and so get their own scans
+ */
+export async function listUsersWithSupertrendSettings(): Promise<number[]> {
+  if (!hasDatabase()) {
+    return Array.from(memorySettings)
+      .filter(([key, overrides]) => key.startsWith('user:') && Object.keys(overrides).length > 0)
+      .map(([key]) => Number(key.slice('user:'.length)));
+  }
+  const { rows } = await sql`SELECT DISTINCT user_id FROM supertrend_settings WHERE user_id IS NOT NULL`;
+  return rows.map(row => row.user_id);
+}
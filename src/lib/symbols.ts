@@ -0,0 +1,149 @@
+/**
+ * Symbol Registry
+ * Every symbol the scanner has found data for, with its name, exchange and
+ * sector from the provider. Used for symbol search and to check symbols before
+ * they are written to watchlists. Kept in memory when no database is configured.
+ */
+
+import { sql } from '@vercel/postgres';
+import type { AssetType, SymbolInfo } from './providers';
+import { hasDatabase, memoryStore } from './memoryStore';
+
+// Quote currencies appended to crypto pairs, e.g. BINANCE:BTCUSDT
+const CRYPTO_QUOTES = ['USDT', 'USDC', 'BUSD', 'USD'];
+
+// Keyed type:symbol, as a ticker can be both a stock and a coin
+const memorySymbols = memoryStore('symbolRegistry', () => new Map<string, SymbolInfo>());
+
+const registryKey = (type: AssetType, symbol: string) => `${type}:${symbol}`;
+
+function toSymbolInfo(row: Record<string, unknown>): SymbolInfo {
+  return {
+    symbol: row.symbol as string,
+    name: row.name as string,
+    type: row.asset_type as AssetType,
+    exchange: (row.exchange as string | null) ?? undefined,
+    sector: (row.sector as string | null) ?? undefined,
+    providerId: (row.provider_id as string | null) ?? undefined
+  };
+}
+
+/**
+ * Upper-case ticker of user input, without an EXCHANGE: prefix
+ */
+export function normaliseTicker(input: string): string {
+  return input.slice(input.indexOf(':') + 1).trim().toUpperCase();
+}
+
+// Tickers are stored in VARCHAR(20) columns
+const MAX_TICKER_LENGTH = 20;
+
+/**
+ * The ticker of a request's symbol field, or null when it isn't a plausible
+ * one: letters, digits and . - ^ = only, at most 20 characters
+ */
+export function parseTicker(input: unknown): string | null {
+  if (typeof input !== 'string') {
+    return null;
+  }
+  const ticker = normaliseTicker(input);
+  return ticker.length <= MAX_TICKER_LENGTH && /^[A-Z0-9.\-^=]+$/.test(ticker) ? ticker : null;
+}
+
+/**
+ * Tickers an input could mean, best first: the ticker itself, then the base
+ * coin of a crypto pair
+ */
+function candidateTickers(input: string): string[] {
+  const ticker = normaliseTicker(input);
+  const quote = CRYPTO_QUOTES.find(q => ticker.endsWith(q) && ticker.length > q.length);
+  return quote ? [ticker, ticker.slice(0, -quote.length)] : [ticker];
+}
+
+/**
+ * Add or refresh symbols, e.g. the members of a universe that was just scanned
+ */
+export async function registerSymbols(symbols: SymbolInfo[]): Promise<void> {
+  for (const info of symbols) {
+    if (!hasDatabase()) {
+      const key = registryKey(info.type, info.symbol);
+      memorySymbols.set(key, { ...memorySymbols.get(key), ...info });
+      continue;
+    }
+    await sql`
+      INSERT INTO symbols (symbol, name, asset_type, exchange, sector, provider_id)
+      VALUES (${info.symbol}, ${info.name || info.symbol}, ${info.type}, ${info.exchange ?? null},
+              ${info.sector ?? null}, ${info.providerId ?? null})
+      ON CONFLICT (symbol, asset_type) DO UPDATE SET
+        name = EXCLUDED.name,
+        exchange = COALESCE(EXCLUDED.exchange, symbols.exchange),
+        sector = COALESCE(EXCLUDED.sector, symbols.sector),
+        provider_id = COALESCE(EXCLUDED.provider_id, symbols.provider_id),
+        updated_at = CURRENT_TIMESTAMP
+    `;
+  }
+}
+
+/**
+ * Registered symbols for each of the given inputs, keyed by input. Inputs may
+ * be lower case or carry an exchange prefix; crypto pairs resolve to their
+ * coin. Without an asset type, a stock wins over a coin with the same ticker.
+ * Inputs that match nothing are left out.
+ */
+export async function findSymbols(inputs: string[], assetType: AssetType | null = null): Promise<Map<string, SymbolInfo>> {
+  const tickers = Array.from(new Set(inputs.flatMap(candidateTickers)));
+  let registered: Map<string, SymbolInfo>;
+  if (hasDatabase()) {
+    // sql.query, as the tagged template doesn't take array values
+    const { rows } = await sql.query(
+      `SELECT symbol, name, asset_type, exchange, sector, provider_id FROM symbols
+       WHERE symbol = ANY($1::text[]) AND ($2::text IS NULL OR asset_type = $2)`,
+      [tickers, assetType]
+    );
+    registered = new Map(rows.map(row => [registryKey(row.asset_type, row.symbol), toSymbolInfo(row)]));
+  } else {
+    registered = new Map(Array.from(memorySymbols).filter(([, info]) => !assetType || info.type === assetType));
+  }
+
+  const found = new Map<string, SymbolInfo>();
+  inputs.forEach(input => {
+    const [ticker, base] = candidateTickers(input);
+    // Only coins are quoted as pairs
+    const info = registered.get(registryKey('stock', ticker))
+      ?? registered.get(registryKey('crypto', ticker))
+      ?? (base ? registered.get(registryKey('crypto', base)) : undefined);
+    if (info) {
+      found.set(input, info);
+    }
+  });
+  return found;
+}
+
+export async function findSymbol(input: string, assetType: AssetType | null = null): Promise<SymbolInfo | null> {
+  return (await findSymbols([input], assetType)).get(input) ?? null;
+}
+
+/**
+ * Symbols whose ticker starts with the query or whose name contains it:
+ * exact ticker first, then ticker prefixes, then name matches
+ */
+export async function searchSymbols(query: string, limit = 10, assetType: AssetType | null = null): Promise<SymbolInfo[]> {
+  const ticker = normaliseTicker(query);
+  const pattern = ticker.replace(/[\\%_]/g, '\\$&');
+  if (!hasDatabase()) {
+    const rank = (info: SymbolInfo) => (info.symbol === ticker ? 0 : info.symbol.startsWith(ticker) ? 1 : 2);
+    return Array.from(memorySymbols.values())
+      .filter(info => (info.symbol.startsWith(ticker) || info.name.toUpperCase().includes(ticker)) && (!assetType || info.type === assetType))
+      .sort((a, b) => rank(a) - rank(b) || a.symbol.length - b.symbol.length || a.symbol.localeCompare(b.symbol))
+      .slice(0, limit);
+  }
+  const { rows } = await sql`
+    SELECT symbol, name, asset_type, exchange, sector, provider_id
+    FROM symbols
+    WHERE (symbol LIKE ${pattern + '%'} OR name ILIKE ${'%' + pattern + '%'})
+      AND (${assetType}::text IS NULL OR asset_type = ${assetType})
+    ORDER BY symbol = ${ticker} DESC, symbol LIKE ${pattern + '%'} DESC, length(symbol), symbol, asset_type DESC
+    LIMIT ${limit}
+  `;
+  return rows.map(toSymbolInfo);
+}
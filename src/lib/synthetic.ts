@@ -0,0 +1,203 @@
+/**
+ * Synthetic Market Generator
+ * Seeded, regime-switching random walk producing reproducible OHLCV candles
+ * for offline mode, demos and tests
+ */
+
+import type { OHLCData } from './indicators';
+import {
+  parseInterval,
+  resampleOHLC,
+  zonedTimeToISO,
+  US_EQUITY_SESSION,
+  type ResampleInterval,
+  type SessionConfig
+} from './resample';
+
+/**
+ * Market behaviour while a regime lasts, in per-session terms
+ */
+export interface MarketRegime {
+  drift: number;      // Mean log return per session, e.g. 0.001 = +0.1%
+  volatility: number; // Standard deviation of log returns per session
+}
+
+export interface SyntheticMarketConfig {
+  seed: string | number;
+  bars: number;
+  interval: ResampleInterval | string;
+  end?: Date;                 // Last bar closes at or before this; defaults to the start of today (UTC)
+  session?: SessionConfig;
+  startPrice?: number;
+  regimes?: MarketRegime[];
+  switchProbability?: number; // Chance per session of moving to another regime
+  averageVolume?: number;     // Volume per session
+}
+
+// Bull, bear and range-bound markets
+export const DEFAULT_REGIMES: MarketRegime[] = [
+  { drift: 0.0015, volatility: 0.014 },
+  { drift: -0.0018, volatility: 0.02 },
+  { drift: 0, volatility: 0.009 }
+];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Guards against sessions that never produce a bar
+const MAX_CALENDAR_DAYS = 20000;
+
+interface BarSlot {
+  time: string;
+  fraction: number; // Share of a session the bar covers
+}
+
+/**
+ * Deterministic PRNG (mulberry32) returning floats in [0, 1)
+ */
+export function createSeededRandom(seed: string | number): () => number {
+  // FNV-1a hash so string seeds spread over the 32-bit state
+  let state = 2166136261;
+  for (const char of String(seed)) {
+    state = Math.imul(state ^ char.charCodeAt(0), 16777619);
+  }
+
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal sample (Box-Muller)
+ */
+function normal(random: () => number): number {
+  const u = Math.max(random(), Number.EPSILON);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+function parseClock(clock: string): number {
+  const [hours, minutes] = clock.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+}
+
+/**
+ * UTC instant of a wall-clock minute of a session day ("24:00" is the next midnight)
+ */
+function sessionInstant(date: string, minutes: number, timeZone: string): number {
+  if (minutes >= MINUTES_PER_DAY) {
+    return Date.parse(zonedTimeToISO(`${addDays(date, 1)} 00:00:00`, timeZone));
+  }
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return Date.parse(zonedTimeToISO(`${date} ${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}:00`, timeZone));
+}
+
+/**
+ * Start times of the last `count` bars that close by `end`, oldest first.
+ * Markets that don't trade round the clock are closed at weekends.
+ */
+function buildSlots(count: number, barMinutes: number | null, end: Date, session: SessionConfig): BarSlot[] {
+  const open = parseClock(session.open);
+  const close = parseClock(session.close);
+  const sessionMinutes = close - open;
+  const weekends = sessionMinutes < MINUTES_PER_DAY;
+  const endTime = end.getTime();
+
+  const slots: BarSlot[] = [];
+  let date = new Intl.DateTimeFormat('en-CA', { timeZone: session.timeZone }).format(end);
+
+  for (let day = 0; day < MAX_CALENDAR_DAYS && slots.length < count; day++, date = addDays(date, -1)) {
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+    if (weekends && (weekday === 0 || weekday === 6)) {
+      continue;
+    }
+
+    if (barMinutes === null) {
+      if (sessionInstant(date, close, session.timeZone) <= endTime) {
+        slots.push({ time: date, fraction: 1 });
+      }
+      continue;
+    }
+
+    // Walk the day's bars newest first
+    const starts: number[] = [];
+    for (let start = open; start < close; start += barMinutes) {
+      starts.push(start);
+    }
+    for (const start of starts.reverse()) {
+      const barEnd = Math.min(start + barMinutes, close);
+      if (sessionInstant(date, barEnd, session.timeZone) <= endTime && slots.length < count) {
+        slots.push({
+          time: new Date(sessionInstant(date, start, session.timeZone)).toISOString(),
+          fraction: (barEnd - start) / sessionMinutes
+        });
+      }
+    }
+  }
+
+  return slots.reverse();
+}
+
+/**
+ * Generate `bars` candles of an interval. The same config always yields the same candles.
+ */
+export function generateSyntheticOHLC(config: SyntheticMarketConfig): OHLCData[] {
+  const {
+    seed,
+    bars,
+    interval,
+    end = new Date(new Date().toISOString().split('T')[0]),
+    session = US_EQUITY_SESSION,
+    startPrice = 100,
+    regimes = DEFAULT_REGIMES,
+    switchProbability = 0.05,
+    averageVolume = 1000000
+  } = config;
+
+  if (regimes.length === 0) {
+    throw new Error('Synthetic market needs at least one regime');
+  }
+
+  const { unit, count } = parseInterval(interval);
+  const intraday = unit === 'm' || unit === 'h';
+
+  // Multi-day bars are built from daily ones, with a little spare for partial first bars
+  const daysPerBar = unit === 'W' ? count * 7 : count;
+  const slots = intraday
+    ? buildSlots(bars, count * (unit === 'h' ? 60 : 1), end, session)
+    : buildSlots((bars + 1) * daysPerBar, null, end, session);
+
+  const random = createSeededRandom(seed);
+  let regime = regimes[Math.floor(random() * regimes.length)];
+  let previousClose = startPrice;
+
+  const candles: OHLCData[] = slots.map(({ time, fraction }) => {
+    if (random() < switchProbability * fraction) {
+      regime = regimes[Math.floor(random() * regimes.length)];
+    }
+
+    const barVolatility = regime.volatility * Math.sqrt(fraction);
+    const change = regime.drift * fraction + barVolatility * normal(random);
+    const open = previousClose;
+    const close = open * Math.exp(change);
+    previousClose = close;
+
+    // Wicks scale with the bar's volatility; volume rises on big moves
+    const high = Math.max(open, close) * (1 + Math.abs(normal(random)) * barVolatility * 0.5);
+    const low = Math.min(open, close) * (1 - Math.abs(normal(random)) * barVolatility * 0.5);
+    const surprise = barVolatility > 0 ? Math.abs(change) / barVolatility : 0;
+    const volume = Math.round(averageVolume * fraction * (0.6 + 0.8 * random()) * (1 + 0.3 * surprise));
+
+    return { time, open, high, low, close, volume };
+  });
+
+  if (intraday || interval === '1D') {
+    return candles;
+  }
+  return resampleOHLC(candles, interval, session).slice(-bars);
+}
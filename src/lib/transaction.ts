@@ -0,0 +1,24 @@
+/**
+ * Transactions
+ * Several queries on one pooled connection, committed together.
+ */
+
+import { db, type VercelPoolClient } from '@vercel/postgres';
+
+/**
+ * Run queries on one connection in a transaction, rolled back if they throw
+ */
+export async function transaction<T>(run: (client: VercelPoolClient) => Promise<T>): Promise<T> {
+  const client = await db.connect();
+  try {
+    await client.sql`BEGIN`;
+    const result = await run(client);
+    await client.sql`COMMIT`;
+    return result;
+  } catch (error) {
+    await client.sql`ROLLBACK`;
+    throw error;
+  } finally {
+    client.release();
+  }
+}
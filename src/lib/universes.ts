@@ -0,0 +1,184 @@
+/**
+ * Scan Universes
+ * Named symbol lists stored in Postgres, with built-in copies for when no database is configured
+ */
+
+import { sql } from '@vercel/postgres';
+import { getMarketDataProvider, type AssetType, type SymbolInfo } from './providers';
+import { transaction } from './transaction';
+
+export interface Universe {
+  slug: string;
+  name: string;
+  assetType: AssetType;
+  source: 'static' | 'provider';
+  providerLimit: number | null;
+  userId: number | null;
+}
+
+interface BuiltInUniverse extends Universe {
+  members: SymbolInfo[];
+}
+
+// Universes scanned when /api/data is called without ?universe=
+export const DEFAULT_UNIVERSE_SLUGS = ['us-megacap', 'top-10-crypto'];
+
+// Mirrors the seed rows in schema.sql
+const BUILT_IN_UNIVERSES: BuiltInUniverse[] = [
+  {
+    slug: 'us-megacap',
+    name: 'US Mega Caps',
+    assetType: 'stock',
+    source: 'static',
+    providerLimit: null,
+    userId: null,
+    members: [
+      { symbol: 'AAPL', name: 'Apple Inc.', type: 'stock', exchange: 'NASDAQ', sector: 'Information Technology' },
+      { symbol: 'MSFT', name: 'Microsoft Corporation', type: 'stock', exchange: 'NASDAQ', sector: 'Information Technology' },
+      { symbol: 'GOOGL', name: 'Alphabet Inc.', type: 'stock', exchange: 'NASDAQ', sector: 'Communication Services' },
+      { symbol: 'AMZN', name: 'Amazon.com Inc.', type: 'stock', exchange: 'NASDAQ', sector: 'Consumer Discretionary' },
+      { symbol: 'TSLA', name: 'Tesla Inc.', type: 'stock', exchange: 'NASDAQ', sector: 'Consumer Discretionary' },
+      { symbol: 'META', name: 'Meta Platforms Inc.', type: 'stock', exchange: 'NASDAQ', sector: 'Communication Services' },
+    ]
+  },
+  { slug: 'top-10-crypto', name: 'Top 10 Crypto', assetType: 'crypto', source: 'provider', providerLimit: 10, userId: null, members: [] },
+  { slug: 'top-50-crypto', name: 'Top 50 Crypto', assetType: 'crypto', source: 'provider', providerLimit: 50, userId: null, members: [] },
+];
+
+function toUniverse(row: Record<string, unknown>): Universe {
+  return {
+    slug: row.slug as string,
+    name: row.name as string,
+    assetType: row.asset_type as AssetType,
+    source: row.source as 'static' | 'provider',
+    providerLimit: (row.provider_limit as number | null) ?? null,
+    userId: (row.user_id as number | null) ?? null
+  };
+}
+
+function toBuiltIn(builtIn: BuiltInUniverse): Universe {
+  const { slug, name, assetType, source, providerLimit, userId } = builtIn;
+  return { slug, name, assetType, source, providerLimit, userId };
+}
+
+/**
+ * Shared universes plus those owned by the given user
+ */
+export async function listUniverses(userId: number | null): Promise<Universe[]> {
+  try {
+    const { rows } = await sql`
+      SELECT slug, name, asset_type, source, provider_limit, user_id
+      FROM universes
+      WHERE user_id IS NULL OR user_id = ${userId}
+      ORDER BY user_id NULLS FIRST, name
+    `;
+    return rows.map(toUniverse);
+  } catch (error) {
+    console.warn('Universes table unavailable, using built-in universes:', error);
+    return BUILT_IN_UNIVERSES.map(toBuiltIn);
+  }
+}
+
+/**
+ * Every universe, shared and user-owned, for the background scan
+ */
+export async function listAllUniverses(): Promise<Universe[]> {
+  try {
+    const { rows } = await sql`
+      SELECT slug, name, asset_type, source, provider_limit, user_id
+      FROM universes
+      ORDER BY user_id NULLS FIRST, name
+    `;
+    return rows.map(toUniverse);
+  } catch (error) {
+    console.warn('Universes table unavailable, using built-in universes:', error);
+    return BUILT_IN_UNIVERSES.map(toBuiltIn);
+  }
+}
+
+export async function getUniverse(slug: string, userId: number | null): Promise<Universe | null> {
+  try {
+    const { rows } = await sql`
+      SELECT slug, name, asset_type, source, provider_limit, user_id
+      FROM universes
+      WHERE slug = ${slug} AND (user_id IS NULL OR user_id = ${userId})
+    `;
+    return rows.length > 0 ? toUniverse(rows[0]) : null;
+  } catch (error) {
+    console.warn('Universes table unavailable, using built-in universes:', error);
+    const builtIn = BUILT_IN_UNIVERSES.find(universe => universe.slug === slug);
+    return builtIn ? toBuiltIn(builtIn) : null;
+  }
+}
+
+/**
+ * Symbols (with name, exchange and sector) a universe scans
+ */
+export async function getUniverseMembers(universe: Universe): Promise<SymbolInfo[]> {
+  if (universe.source === 'provider') {
+    const provider = getMarketDataProvider(universe.assetType);
+    return provider.listUniverse({ limit: universe.providerLimit ?? undefined });
+  }
+
+  try {
+    const { rows } = await sql`
+      SELECT m.symbol, m.name, m.exchange, m.sector
+      FROM universe_members m
+      JOIN universes u ON u.id = m.universe_id
+      WHERE u.slug = ${universe.slug}
+      ORDER BY m.position, m.symbol
+    `;
+    return rows.map(row => ({
+      symbol: row.symbol,
+      name: row.name,
+      type: universe.assetType,
+      exchange: row.exchange ?? undefined,
+      sector: row.sector ?? undefined
+    }));
+  } catch (error) {
+    console.warn(`Universe members unavailable for ${universe.slug}, using built-in list:`, error);
+    return BUILT_IN_UNIVERSES.find(builtIn => builtIn.slug === universe.slug)?.members ?? [];
+  }
+}
+
+/**
+ * Create a static universe owned by a user, e.g. a sector basket, with its
+ * members in one transaction. Members are expected checked, with upper-case
+ * tickers; a ticker listed twice keeps its first position.
+ */
+export async function createUserUniverse(
+  userId: number,
+  name: string,
+  assetType: AssetType,
+  members: Omit<SymbolInfo, 'type'>[]
+): Promise<Universe> {
+  const baseSlug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'universe';
+  const slug = `u${userId}-${baseSlug}`.slice(0, 50);
+
+  return transaction(async client => {
+    const { rows } = await client.sql`
+      INSERT INTO universes (slug, name, asset_type, source, user_id)
+      VALUES (${slug}, ${name}, ${assetType}, 'static', ${userId})
+      RETURNING id, slug, name, asset_type, source, provider_limit, user_id
+    `;
+    const universeId = rows[0].id;
+
+    for (const [position, member] of members.entries()) {
+      await client.sql`
+        INSERT INTO universe_members (universe_id, symbol, name, exchange, sector, position)
+        VALUES (${universeId}, ${member.symbol}, ${member.name || member.symbol},
+                ${member.exchange ?? null}, ${member.sector ?? null}, ${position})
+        ON CONFLICT (universe_id, symbol) DO NOTHING
+      `;
+    }
+
+    return toUniverse(rows[0]);
+  });
+}
+
+export async function deleteUserUniverse(userId: number, slug: string): Promise<boolean> {
+  const { rowCount } = await sql`
+    DELETE FROM universes WHERE slug = ${slug} AND user_id = ${userId}
+  `;
+  return (rowCount ?? 0) > 0;
+}
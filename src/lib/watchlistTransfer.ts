@@ -0,0 +1,203 @@
+/**
+ * Watchlist Import/Export
+ * Reads and writes watchlists as CSV (symbol, note, tags, target price, type) or as
+ * TradingView-style text lists of EXCHANGE:SYMBOL entries.
+ */
+
+import type { AssetType, SymbolInfo } from './providers';
+import { findSymbols, parseTicker } from './symbols';
+import { parseWatchlistItemDetails, type Watchlist, type WatchlistItem, type WatchlistItemDetails } from './watchlists';
+
+export const WATCHLIST_FORMATS = ['csv', 'tradingview'] as const;
+export type WatchlistFormat = typeof WATCHLIST_FORMATS[number];
+
+export const MAX_IMPORT_ROWS = 500;
+export const MAX_IMPORT_LENGTH = 100_000; // Characters
+
+const CSV_COLUMNS = ['symbol', 'note', 'tags', 'target_price', 'type'];
+
+export type ImportStatus = 'new' | 'existing' | 'duplicate' | 'unknown' | 'invalid';
+
+export interface ImportRow {
+  row: number; // 1-based line (CSV) or entry (TradingView) number
+  input: string;
+  symbol: string | null;
+  type: AssetType | null; // The registry's type for the symbol, null when it isn't registered
+  status: ImportStatus;
+  message?: string;
+  details: WatchlistItemDetails;
+}
+
+/**
+ * Split CSV text into rows of cells, honouring double-quoted cells
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+  return rows;
+}
+
+/**
+ * A cell as CSV. Text starting with = + - or @ is prefixed with ' so that
+ * spreadsheets opening the export don't run it as a formula.
+ */
+function csvCell(value: string): string {
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Entries of an import as raw symbols with any note, tags and target price.
+ * CSV may start with a header row naming its columns; without one the columns
+ * are symbol, note, tags (separated by ";"), target price and asset type.
+ */
+function readEntries(text: string, format: WatchlistFormat): { row: number; input: string; fields: Record<string, string> }[] {
+  if (format === 'tradingview') {
+    // Comma or newline separated; "###Section" lines group symbols in TradingView exports
+    return text
+      .split(/[,\r\n]+/)
+      .map(entry => entry.trim())
+      .filter(entry => entry && !entry.startsWith('###'))
+      .map((entry, index) => ({ row: index + 1, input: entry, fields: { symbol: entry } }));
+  }
+
+  const rows = parseCsv(text);
+  const header = rows[0]?.map(cell => cell.trim().toLowerCase().replace(/[^a-z]+/g, '_'));
+  const hasHeader = header?.[0] === 'symbol';
+  const columns = hasHeader ? header : CSV_COLUMNS;
+
+  return rows
+    .map((cells, index) => ({
+      row: index + 1,
+      input: cells.join(','),
+      fields: Object.fromEntries(columns.map((column, i) => [column, (cells[i] ?? '').trim()]))
+    }))
+    .slice(hasHeader ? 1 : 0)
+    .filter(entry => entry.fields.symbol);
+}
+
+/**
+ * Number of entries in an import, to check against MAX_IMPORT_ROWS before
+ * anything is looked up
+ */
+export function countImportEntries(text: string, format: WatchlistFormat): number {
+  return readEntries(text, format).length;
+}
+
+/**
+ * Check an import against the symbol registry and the list it's going into,
+ * without changing anything. Rows with status "new" are the ones to add.
+ */
+export async function previewWatchlistImport(text: string, format: WatchlistFormat, target: Watchlist): Promise<ImportRow[]> {
+  const entries = readEntries(text, format);
+  // Entries naming a type are looked up as that type; the rest as the registry prefers
+  const typed = (type: string) => entries.filter(entry => entry.fields.type === type).map(entry => entry.fields.symbol);
+  const [known, stocks, coins] = await Promise.all([
+    findSymbols(entries.filter(entry => !entry.fields.type).map(entry => entry.fields.symbol)),
+    findSymbols(typed('stock'), 'stock'),
+    findSymbols(typed('crypto'), 'crypto')
+  ]);
+  const lookups: Record<string, Map<string, SymbolInfo>> = { stock: stocks, crypto: coins };
+  const onList = new Set(target.items.map(item => item.symbol));
+  const seen = new Set<string>();
+
+  return entries.map(({ row, input, fields }): ImportRow => {
+    const ticker = parseTicker(fields.symbol);
+    if (!ticker) {
+      return { row, input, symbol: null, type: null, status: 'invalid', message: 'Not a ticker', details: {} };
+    }
+    if (fields.type && !lookups[fields.type]) {
+      return { row, input, symbol: ticker, type: null, status: 'invalid', message: 'Type must be stock or crypto', details: {} };
+    }
+    const info = (fields.type ? lookups[fields.type] : known).get(fields.symbol);
+    const symbol = info?.symbol ?? ticker;
+    const type = info?.type ?? null;
+
+    const targetPrice = fields.target_price ? Number(fields.target_price) : undefined;
+    const parsed = parseWatchlistItemDetails({
+      note: fields.note || undefined,
+      tags: fields.tags ? fields.tags.split(';').map(tag => tag.trim()).filter(Boolean) : undefined,
+      targetPrice
+    });
+    if ('message' in parsed) {
+      return { row, input, symbol, type, status: 'invalid', message: parsed.message, details: {} };
+    }
+
+    let status: ImportStatus = 'new';
+    let message: string | undefined;
+    if (!info) {
+      status = 'unknown';
+      message = 'Not a known symbol';
+    } else if (seen.has(symbol)) {
+      status = 'duplicate';
+      message = 'Listed earlier in the import';
+    } else if (onList.has(symbol)) {
+      status = 'existing';
+      message = `Already on ${target.name}`;
+    }
+    seen.add(symbol);
+    return { row, input, symbol, type, status, message, details: parsed.details };
+  });
+}
+
+/**
+ * A TradingView entry for a list item. Crypto is listed as a Binance USDT pair,
+ * the market its candles come from.
+ */
+function tradingViewSymbol(item: WatchlistItem, info: SymbolInfo | undefined): string {
+  if (item.type === 'crypto') {
+    return `${info?.exchange ?? 'BINANCE'}:${item.symbol}USDT`;
+  }
+  return info?.exchange ? `${info.exchange}:${item.symbol}` : item.symbol;
+}
+
+export async function exportWatchlist(list: Watchlist, format: WatchlistFormat): Promise<string> {
+  if (format === 'tradingview') {
+    // Looked up by the type each item was added as, as a ticker can be both a stock and a coin
+    const [stocks, coins] = await Promise.all([
+      findSymbols(list.items.filter(item => item.type === 'stock').map(item => item.symbol), 'stock'),
+      findSymbols(list.items.filter(item => item.type === 'crypto').map(item => item.symbol), 'crypto')
+    ]);
+    return list.items
+      .map(item => tradingViewSymbol(item, (item.type === 'crypto' ? coins : stocks).get(item.symbol)))
+      .join(',') + '\n';
+  }
+
+  const lines = list.items.map(item =>
+    [item.symbol, item.note ?? '', item.tags.join(';'), item.targetPrice?.toString() ?? '', item.type].map(csvCell).join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...lines].join('\n') + '\n';
+}
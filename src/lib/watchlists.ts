@@ -0,0 +1,251 @@
+/**
+ * Watchlists
+ * A user's named symbol lists. Symbols keep a manual order and can carry a
+ * note, tags and a target price. A user with no lists gets a default one.
+ */
+
+import { sql } from '@vercel/postgres';
+import type { AssetType } from './providers';
+import { transaction } from './transaction';
+
+export const DEFAULT_WATCHLIST_NAME = 'Watchlist';
+
+export interface WatchlistItem {
+  symbol: string;
+  type: AssetType;
+  position: number;
+  note: string | null;
+  tags: string[];
+  targetPrice: number | null;
+  addedAt: string;
+}
+
+export interface Watchlist {
+  id: number;
+  name: string;
+  items: WatchlistItem[];
+}
+
+export type WatchlistItemDetails = Partial<Pick<WatchlistItem, 'note' | 'tags' | 'targetPrice'>>;
+
+export const MAX_NOTE_LENGTH = 500;
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 30;
+
+/**
+ * Note, tags and target price from a request body, or the reason they're invalid.
+ * Fields that are absent stay undefined; null clears them.
+ */
+export function parseWatchlistItemDetails(body: Record<string, unknown>): { details: WatchlistItemDetails } | { message: string } {
+  const details: WatchlistItemDetails = {};
+  const { note, tags, targetPrice } = body;
+
+  if (note !== undefined) {
+    if (note !== null && (typeof note !== 'string' || note.length > MAX_NOTE_LENGTH)) {
+      return { message: `Note must be text of at most ${MAX_NOTE_LENGTH} characters` };
+    }
+    details.note = note?.trim() || null;
+  }
+  if (tags !== undefined) {
+    if (
+      !Array.isArray(tags) ||
+      tags.length > MAX_TAGS ||
+      tags.some(tag => typeof tag !== 'string' || !tag.trim() || tag.trim().length > MAX_TAG_LENGTH)
+    ) {
+      return { message: `Tags must be a list of at most ${MAX_TAGS} words of up to ${MAX_TAG_LENGTH} characters` };
+    }
+    details.tags = Array.from(new Set(tags.map(tag => tag.trim().toLowerCase())));
+  }
+  if (targetPrice !== undefined) {
+    if (targetPrice !== null && (typeof targetPrice !== 'number' || !(targetPrice > 0))) {
+      return { message: 'Target price must be a positive number' };
+    }
+    details.targetPrice = targetPrice;
+  }
+  return { details };
+}
+
+function toItem(row: Record<string, unknown>): WatchlistItem {
+  return {
+    symbol: row.symbol as string,
+    type: row.asset_type as AssetType,
+    position: row.position as number,
+    note: (row.note as string | null) ?? null,
+    tags: (row.tags as string[] | null) ?? [],
+    targetPrice: (row.target_price as number | null) ?? null,
+    addedAt: new Date(row.added_at as string).toISOString()
+  };
+}
+
+/**
+ * Every list of a user with its symbols in order, creating the default list on first use
+ */
+export async function listWatchlists(userId: number): Promise<Watchlist[]> {
+  let { rows } = await sql`
+    SELECT id, name FROM watchlists WHERE user_id = ${userId} ORDER BY id
+  `;
+  if (rows.length === 0) {
+    await sql`
+      INSERT INTO watchlists (user_id, name) VALUES (${userId}, ${DEFAULT_WATCHLIST_NAME})
+      ON CONFLICT (user_id, name) DO NOTHING
+    `;
+    ({ rows } = await sql`SELECT id, name FROM watchlists WHERE user_id = ${userId} ORDER BY id`);
+  }
+
+  const { rows: items } = await sql`
+    SELECT i.watchlist_id, i.symbol, i.asset_type, i.position, i.note, i.tags, i.target_price, i.added_at
+    FROM watchlist_items i JOIN watchlists w ON w.id = i.watchlist_id
+    WHERE w.user_id = ${userId}
+    ORDER BY i.position, i.id
+  `;
+  return rows.map(row => ({
+    id: row.id,
+    name: row.name,
+    items: items.filter(item => item.watchlist_id === row.id).map(toItem)
+  }));
+}
+
+async function ownsWatchlist(userId: number, watchlistId: number): Promise<boolean> {
+  const { rows } = await sql`
+    SELECT 1 FROM watchlists WHERE id = ${watchlistId} AND user_id = ${userId}
+  `;
+  return rows.length > 0;
+}
+
+export async function createWatchlist(userId: number, name: string): Promise<number> {
+  const { rows } = await sql`
+    INSERT INTO watchlists (user_id, name) VALUES (${userId}, ${name}) RETURNING id
+  `;
+  return rows[0].id;
+}
+
+export async function renameWatchlist(userId: number, watchlistId: number, name: string): Promise<boolean> {
+  const { rowCount } = await sql`
+    UPDATE watchlists SET name = ${name} WHERE id = ${watchlistId} AND user_id = ${userId}
+  `;
+  return (rowCount ?? 0) > 0;
+}
+
+export async function deleteWatchlist(userId: number, watchlistId: number): Promise<boolean> {
+  const { rowCount } = await sql`
+    DELETE FROM watchlists WHERE id = ${watchlistId} AND user_id = ${userId}
+  `;
+  return (rowCount ?? 0) > 0;
+}
+
+/**
+ * Append a symbol of the given type to a list; returns false when the list
+ * isn't the user's. A symbol already on the list is left as it is.
+ */
+export async function addWatchlistItem(
+  userId: number,
+  watchlistId: number,
+  symbol: string,
+  type: AssetType,
+  details: WatchlistItemDetails = {}
+): Promise<boolean> {
+  return (await addWatchlistItems(userId, watchlistId, [{ symbol, type, ...details }])) !== null;
+}
+
+/**
+ * Append several symbols to a list in the given order, as addWatchlistItem does,
+ * and return how many were added: symbols already on the list are skipped. Null
+ * when the list isn't the user's. The list row is locked so concurrent
+ * additions don't take the same positions.
+ */
+export async function addWatchlistItems(
+  userId: number,
+  watchlistId: number,
+  items: (WatchlistItemDetails & { symbol: string; type: AssetType })[]
+): Promise<number | null> {
+  return transaction(async client => {
+    const { rows } = await client.sql`
+      SELECT 1 FROM watchlists WHERE id = ${watchlistId} AND user_id = ${userId} FOR UPDATE
+    `;
+    if (rows.length === 0) {
+      return null;
+    }
+    // client.query, as the tagged template doesn't take array values. Each item's
+    // tags go as a JSON array, since unnest can't take a ragged text[][].
+    const { rowCount } = await client.query(
+      `INSERT INTO watchlist_items (watchlist_id, symbol, asset_type, position, note, tags, target_price)
+       SELECT $1, i.symbol, i.asset_type, last.position + i.n, i.note, ARRAY(SELECT jsonb_array_elements_text(i.tags)), i.target_price
+       FROM unnest($2::text[], $3::text[], $4::text[], $5::jsonb[], $6::double precision[])
+              WITH ORDINALITY AS i(symbol, asset_type, note, tags, target_price, n),
+            (SELECT COALESCE(MAX(position), -1) AS position FROM watchlist_items WHERE watchlist_id = $1) last
+       ORDER BY i.n
+       ON CONFLICT (watchlist_id, symbol) DO NOTHING`,
+      [
+        watchlistId,
+        items.map(item => item.symbol),
+        items.map(item => item.type),
+        items.map(item => item.note ?? null),
+        items.map(item => JSON.stringify(item.tags ?? [])),
+        items.map(item => item.targetPrice ?? null)
+      ]
+    );
+    return rowCount ?? 0;
+  });
+}
+
+/**
+ * Change the note, tags or target price of a symbol, and with moveTo move it to
+ * the end of another of the user's lists; fields left undefined are kept. It is
+ * one statement, so a move that fails changes nothing: it throws a unique
+ * violation when the target list already has the symbol.
+ */
+export async function updateWatchlistItem(
+  userId: number,
+  watchlistId: number,
+  symbol: string,
+  details: WatchlistItemDetails,
+  moveTo: number | null = null
+): Promise<boolean> {
+  const { rowCount } = await sql.query(
+    `UPDATE watchlist_items i
+     SET note = CASE WHEN $4 THEN $5 ELSE i.note END,
+         tags = CASE WHEN $6 THEN $7::text[] ELSE i.tags END,
+         target_price = CASE WHEN $8 THEN $9::double precision ELSE i.target_price END,
+         watchlist_id = t.id,
+         position = CASE WHEN t.id = i.watchlist_id THEN i.position
+                    ELSE (SELECT COALESCE(MAX(position) + 1, 0) FROM watchlist_items WHERE watchlist_id = t.id) END
+     FROM watchlists w, watchlists t
+     WHERE w.id = i.watchlist_id AND w.user_id = $1 AND i.watchlist_id = $2 AND i.symbol = $3
+       AND t.id = $10 AND t.user_id = $1`,
+    [
+      userId, watchlistId, symbol,
+      details.note !== undefined, details.note ?? null,
+      details.tags !== undefined, details.tags ?? [],
+      details.targetPrice !== undefined, details.targetPrice ?? null,
+      moveTo ?? watchlistId
+    ]
+  );
+  return (rowCount ?? 0) > 0;
+}
+
+export async function removeWatchlistItem(userId: number, watchlistId: number, symbol: string): Promise<boolean> {
+  const { rowCount } = await sql`
+    DELETE FROM watchlist_items i
+    USING watchlists w
+    WHERE w.id = i.watchlist_id AND w.user_id = ${userId} AND i.watchlist_id = ${watchlistId} AND i.symbol = ${symbol}
+  `;
+  return (rowCount ?? 0) > 0;
+}
+
+/**
+ * Put a list's symbols in the given order; symbols not named keep their place after them
+ */
+export async function reorderWatchlistItems(userId: number, watchlistId: number, symbols: string[]): Promise<boolean> {
+  if (!(await ownsWatchlist(userId, watchlistId))) {
+    return false;
+  }
+  await sql.query(
+    `UPDATE watchlist_items i
+     SET position = CASE WHEN o.position IS NULL THEN $3 + i.position ELSE o.position - 1 END
+     FROM watchlist_items j
+     LEFT JOIN unnest($2::text[]) WITH ORDINALITY AS o(symbol, position) ON o.symbol = j.symbol
+     WHERE i.id = j.id AND i.watchlist_id = $1`,
+    [watchlistId, symbols, symbols.length]
+  );
+  return true;
+}
@@ -5,7 +5,10 @@ export function middleware(request: NextRequest) {
   const token = request.cookies.get('token')?.value;
   const { pathname } = request.nextUrl;
 
-  if (!token && pathname !== '/login' && pathname !== '/signup') {
+  // Shared scan links (/?scan=<token>) are read-only and open without logging in
+  const sharedScan = pathname === '/' && request.nextUrl.searchParams.has('scan');
+
+  if (!token && !sharedScan && pathname !== '/login' && pathname !== '/signup') {
     return NextResponse.redirect(new URL('/login', request.url));
   }
 